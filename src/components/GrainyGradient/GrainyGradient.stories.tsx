@@ -1,6 +1,14 @@
 import type { Meta, StoryObj } from '@storybook/react-vite';
+import type { ComponentProps } from 'react';
+import { useRef, useState } from 'react';
 
 import { GrainyGradient } from '.';
+import type { GrainyGradientHandle } from '../../lib/core';
+import { parseGradientList } from '../../lib/parser';
+import type { GradientRenderer } from '../../lib/renderer';
+import { createGradientRenderer, getWebGLContext, renderGradient } from '../../lib/renderer';
+import { compileGradient, parseGradient, validateGradient } from '../../lib/utils';
+import Values from 'values.js';
 
 const innerElement = <div style={{ width: 400, height: 200, pointerEvents: 'none' }} />;
 const ResizableInner = () => {
@@ -151,3 +159,489 @@ export const SizedToText: Story = {
         ),
     },
 };
+
+export const RadialGlow: Story = {
+    args: {
+        gradient: 'radial-gradient(circle at top left, #ffb88c, #de6262 40%, #000428)',
+        children: innerElement,
+    },
+};
+
+export const RadialEllipse: Story = {
+    args: {
+        gradient: 'radial-gradient(ellipse closest-side at 30% 60%, #fff, #004e92, #000)',
+        children: innerElement,
+    },
+};
+
+export const ConicWheel: Story = {
+    args: {
+        gradient:
+            'conic-gradient(hsl(0, 100%, 50%), hsl(120, 100%, 50%) 0.33turn, hsl(240, 100%, 50%) 0.67turn, hsl(0, 100%, 50%))',
+        children: <div style={{ width: 400, height: 400 }} />,
+    },
+};
+
+export const ConicSweep: Story = {
+    args: {
+        gradient:
+            'conic-gradient(from 45deg at 30% 70%, #000428, #004e92 90deg, #de6262 270deg, #000428)',
+        children: innerElement,
+    },
+};
+
+export const RepeatingStripes: Story = {
+    args: {
+        gradient: 'repeating-linear-gradient(45deg, #de6262 0 20px, #ffb88c 20px 40px)',
+        children: innerElement,
+    },
+};
+
+export const RepeatingRings: Story = {
+    args: {
+        gradient:
+            'repeating-radial-gradient(circle at 30% 40%, #000428, #004e92 30px, #000428 60px)',
+        children: innerElement,
+    },
+};
+
+export const LayeredHighlight: Story = {
+    args: {
+        gradient:
+            'radial-gradient(circle at 70% 30%, #ffb88c, #de6262 50%, #000428), linear-gradient(90deg, #004e92, #000428)',
+        blendMode: ['screen', 'normal'],
+        noiseSeed: ['highlight', 'base'],
+        children: innerElement,
+    },
+};
+
+export const LayeredOverlay: Story = {
+    args: {
+        gradient:
+            'linear-gradient(0deg, #000, #fff), conic-gradient(#D60270, #9B4F96, #0038A8, #D60270)',
+        blendMode: 'overlay',
+        children: innerElement,
+    },
+};
+
+export const ManyStops: Story = {
+    args: {
+        gradient: `linear-gradient(90deg, ${new Array(16)
+            .fill(null)
+            .map((_, i) => `hsl(${i * 24}, 80%, ${i % 2 ? 35 : 60}%)`)
+            .join(', ')})`,
+        children: innerElement,
+    },
+};
+
+export const BlueNoise: Story = {
+    args: {
+        gradient: 'linear-gradient(45deg, #de6262, #ffb88c)',
+        noiseType: 'blue',
+        children: innerElement,
+    },
+};
+
+export const BayerDither: Story = {
+    args: {
+        gradient: 'linear-gradient(90deg, #000428, #004e92)',
+        noiseType: 'bayer4',
+        pixelated: true,
+        children: innerElement,
+    },
+};
+
+export const SubtleGrain: Story = {
+    args: {
+        gradient: 'linear-gradient(45deg, #de6262, #ffb88c)',
+        grainIntensity: 0.35,
+        children: innerElement,
+    },
+};
+
+export const FilmGrain: Story = {
+    args: {
+        gradient: 'linear-gradient(180deg, #D60270, #9B4F96, #0038A8)',
+        grainMode: 'film',
+        grainIntensity: 0.4,
+        shimmerSpeed: 2,
+        children: innerElement,
+    },
+};
+
+export const TransparentFade: Story = {
+    args: {
+        gradient: 'linear-gradient(180deg, transparent, rgba(0, 4, 40, 0.6) 50%, #000428)',
+        children: innerElement,
+    },
+    render: (args) => (
+        <div
+            style={{
+                background: 'repeating-conic-gradient(#ccc 0 25%, #fff 0 50%) 0 0 / 40px 40px',
+            }}
+        >
+            <GrainyGradient {...args} />
+        </div>
+    ),
+};
+
+export const CornerDirection: Story = {
+    args: {
+        gradient: 'linear-gradient(to top right, #000428, #004e92 50%, #ffb88c)',
+        children: innerElement,
+    },
+};
+
+export const TurnAngle: Story = {
+    args: {
+        gradient: 'linear-gradient(0.0625turn, #de6262, #ffb88c)',
+        children: innerElement,
+    },
+};
+
+export const StopSyntax: Story = {
+    args: {
+        gradient:
+            'linear-gradient(90deg, #0f2027 0 12.5%, #2c5364, 75%, #ff6e7f calc(100% - 2rem))',
+        children: innerElement,
+    },
+};
+
+/** Loses and restores the WebGL context of the gradient next to the clicked button. */
+export const Keyframes: Story = {
+    args: {
+        gradient: 'linear-gradient(90deg, #000428, #004e92)',
+        keyframes: [
+            { gradient: 'linear-gradient(90deg, #000428, #004e92)', easing: 'ease-in-out' },
+            { gradient: 'linear-gradient(180deg, #de6262, #ffb88c 40%, #000428)', offset: 0.6 },
+            { gradient: 'linear-gradient(270deg, #000428, #004e92)' },
+        ],
+        duration: 6000,
+        direction: 'alternate',
+        children: innerElement,
+    },
+};
+
+const TransitionExample = (props: ComponentProps<typeof GrainyGradient>) => {
+    const [dark, setDark] = useState(true);
+    return (
+        <div>
+            <GrainyGradient
+                {...props}
+                gradient={
+                    dark
+                        ? 'linear-gradient(180deg, #000428, #004e92)'
+                        : 'linear-gradient(90deg, #de6262, #ffb88c 60%, #fff1e6)'
+                }
+            />
+            <button onClick={() => setDark(!dark)}>Switch theme</button>
+        </div>
+    );
+};
+
+export const Transition: Story = {
+    args: {
+        gradient: 'linear-gradient(180deg, #000428, #004e92)',
+        transitionDuration: 600,
+        transitionEasing: 'ease-in-out',
+        children: innerElement,
+    },
+    render: (args) => <TransitionExample {...args} />,
+};
+
+export const MaxFps: Story = {
+    args: {
+        gradient: 'linear-gradient(90deg, #f00, #00f)',
+        shimmerSpeed: 2,
+        maxFps: 12,
+        children: innerElement,
+    },
+};
+
+export const DeviceResolution: Story = {
+    args: {
+        gradient: 'linear-gradient(90deg, #f00, #00f)',
+        shimmerSpeed: 2,
+        resolutionScale: 'auto',
+        maxPixels: 1920 * 1080,
+        adaptiveResolution: true,
+        children: innerElement,
+    },
+};
+
+export const RenderInWorker: Story = {
+    args: {
+        gradient: 'linear-gradient(90deg, #f00, #00f)',
+        keyframes: [
+            { gradient: 'linear-gradient(90deg, #f00, #00f)' },
+            { gradient: 'linear-gradient(270deg, #0f0, #f0f)' },
+        ],
+        duration: 4000,
+        direction: 'alternate',
+        shimmerSpeed: 2,
+        renderInWorker: true,
+        children: innerElement,
+    },
+};
+
+const BENCHMARK_SIZE = [1280, 720] as const;
+const BENCHMARK_FRAMES = 600;
+const BENCHMARK_VIEWPORT = { rootFontSize: 16, width: 1280, height: 720 };
+
+/** The renderer as it was before caching, looking up and setting every uniform and uploading the stops on every draw. */
+const withoutRendererCaches = (renderer: GradientRenderer): GradientRenderer => {
+    const { gl, program, stopTexture } = renderer;
+    const active = gl.getProgramParameter(program, gl.ACTIVE_UNIFORMS) as number;
+    const types = new Map<string, number>();
+    for (let i = 0; i < active; i += 1) {
+        const info = gl.getActiveUniform(program, i);
+        if (info) types.set(info.name.replace(/\[0\]$/, ''), info.type);
+    }
+    return {
+        ...renderer,
+        setUniform: (name, ...values) => {
+            const location = gl.getUniformLocation(program, name);
+            switch (types.get(name)) {
+                case gl.INT:
+                case gl.BOOL:
+                case gl.SAMPLER_2D:
+                    return gl.uniform1i(location, values[0]);
+                case gl.FLOAT_VEC2:
+                    return gl.uniform2fv(location, values);
+                default:
+                    return gl.uniform1fv(location, values);
+            }
+        },
+        uploadStops: (data, count) => {
+            gl.activeTexture(gl.TEXTURE2);
+            gl.bindTexture(gl.TEXTURE_2D, stopTexture);
+            gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+            gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+            gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+            gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+            gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, count, 2, 0, gl.RGBA, gl.UNSIGNED_BYTE, data);
+        },
+    };
+};
+
+// Parses the string and every color again, like every frame did before gradients were compiled
+const parseWithoutCaches = (gradient: string, width: number, height: number) =>
+    parseGradientList(gradient).map((layer) => {
+        for (const stop of layer.colorStops) {
+            if (stop.type === 'color-stop') new Values(stop.color);
+        }
+        return parseGradient(layer, width, height, true, 16, BENCHMARK_VIEWPORT);
+    });
+
+/** Mean CPU time in milliseconds to draw a frame of a shimmering gradient, getting its layers every frame. */
+const measureFrameTime = (gradient: string, cached: boolean) => {
+    const [width, height] = BENCHMARK_SIZE;
+    const canvas = document.createElement('canvas');
+    [canvas.width, canvas.height] = [width, height];
+    const gl = getWebGLContext(canvas);
+    if (!gl) return NaN;
+    const renderer = createGradientRenderer(gl);
+    const drawWith = cached ? renderer : withoutRendererCaches(renderer);
+
+    const start = performance.now();
+    for (let frame = 0; frame < BENCHMARK_FRAMES; frame += 1) {
+        const layers = cached
+            ? compileGradient(gradient).resolve(width, height, true, 16, BENCHMARK_VIEWPORT)
+            : parseWithoutCaches(gradient, width, height);
+        renderGradient(
+            drawWith,
+            width,
+            height,
+            layers,
+            256,
+            frame * 16,
+            true,
+            0xcafe,
+            'white',
+            1,
+            'dither',
+            ['normal'],
+            16
+        );
+    }
+    gl.finish();
+    const frameTime = (performance.now() - start) / BENCHMARK_FRAMES;
+
+    renderer.dispose();
+    gl.getExtension('WEBGL_lose_context')?.loseContext();
+    return frameTime;
+};
+
+const BenchmarkExample = (props: ComponentProps<typeof GrainyGradient>) => {
+    const [result, setResult] = useState<string | null>(null);
+    const run = () => {
+        const gradient = typeof props.gradient === 'string' ? props.gradient : props.gradient(0);
+        const before = measureFrameTime(gradient, false);
+        const after = measureFrameTime(gradient, true);
+        setResult(
+            `parsed and uploaded every frame: ${before.toFixed(3)} ms, compiled and cached: ${after.toFixed(3)} ms`
+        );
+    };
+    return (
+        <div>
+            <GrainyGradient {...props} />
+            <button onClick={run}>Run benchmark</button>
+            {result && <pre>{result}</pre>}
+        </div>
+    );
+};
+
+export const Benchmark: Story = {
+    args: {
+        gradient:
+            'radial-gradient(circle at 30% 40%, rgba(255, 0, 128, 0.8), transparent 60%), linear-gradient(135deg, #000428, #004e92 50%, hsl(200, 80%, 60%))',
+        shimmerSpeed: 2,
+        children: innerElement,
+    },
+    render: (args) => <BenchmarkExample {...args} />,
+};
+
+const simulateContextLoss = (event: React.MouseEvent<HTMLButtonElement>) => {
+    const canvas = event.currentTarget.parentElement?.querySelector('canvas');
+    const extension = canvas?.getContext('webgl')?.getExtension('WEBGL_lose_context');
+    if (!extension) return;
+    extension.loseContext();
+    setTimeout(() => extension.restoreContext(), 1000);
+};
+
+export const ContextLoss: Story = {
+    args: {
+        gradient: 'linear-gradient(180deg, #000428, #004e92)',
+        children: innerElement,
+    },
+    render: (args) => (
+        <div>
+            <GrainyGradient {...args} />
+            <button onClick={simulateContextLoss}>Lose context for a second</button>
+        </div>
+    ),
+};
+
+const ThemeVariablesExample = (props: ComponentProps<typeof GrainyGradient>) => {
+    const [dark, setDark] = useState(false);
+    const theme = dark
+        ? { '--brand-1': '#0f2027', '--brand-2': '#2c5364', color: '#ff6e7f' }
+        : { '--brand-1': '#de6262', '--brand-2': '#ffb88c', color: '#004e92' };
+    return (
+        <div style={theme as React.CSSProperties}>
+            <GrainyGradient {...props} />
+            <button onClick={() => setDark(!dark)}>Switch to {dark ? 'light' : 'dark'}</button>
+        </div>
+    );
+};
+
+export const ThemeVariables: Story = {
+    args: {
+        gradient: 'linear-gradient(90deg, var(--brand-1), var(--brand-2), currentColor)',
+        children: innerElement,
+    },
+    render: (args) => <ThemeVariablesExample {...args} />,
+};
+
+const InvalidGradientExample = (props: ComponentProps<typeof GrainyGradient>) => {
+    const [gradient, setGradient] = useState(props.gradient as string);
+    return (
+        <div>
+            <GrainyGradient
+                {...props}
+                gradient={gradient}
+            />
+            <input
+                style={{ width: 400 }}
+                value={gradient}
+                onChange={(event) => setGradient(event.target.value)}
+            />
+            <ul>
+                {validateGradient(gradient).map(({ position, message, unsupported }) => (
+                    <li key={position}>
+                        {position}: {message}
+                        {unsupported && ` (${unsupported} is not supported)`}
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+export const InvalidGradient: Story = {
+    args: {
+        gradient: 'linear-gradient(180deg, #000428, #004e92)',
+        children: innerElement,
+    },
+    render: (args) => <InvalidGradientExample {...args} />,
+};
+
+const ExportExample = (props: ComponentProps<typeof GrainyGradient>) => {
+    const ref = useRef<GrainyGradientHandle>(null);
+    const download = () => {
+        const link = document.createElement('a');
+        link.href = ref.current?.toDataURL() ?? '';
+        link.download = 'gradient.png';
+        link.click();
+    };
+    return (
+        <div>
+            <GrainyGradient
+                {...props}
+                ref={ref}
+            />
+            <button onClick={download}>Download PNG</button>
+        </div>
+    );
+};
+
+export const Export: Story = {
+    args: {
+        gradient: 'linear-gradient(45deg, #de6262, #ffb88c)',
+        shimmerSpeed: 2,
+        children: innerElement,
+    },
+    render: (args) => <ExportExample {...args} />,
+};
+
+const ScrubberExample = (props: ComponentProps<typeof GrainyGradient>) => {
+    const ref = useRef<GrainyGradientHandle>(null);
+    const [playing, setPlaying] = useState(true);
+    return (
+        <div>
+            <GrainyGradient
+                {...props}
+                ref={ref}
+            />
+            <button
+                onClick={() => {
+                    ref.current?.[playing ? 'pause' : 'play']();
+                    setPlaying(!playing);
+                }}
+            >
+                {playing ? 'Pause' : 'Play'}
+            </button>
+            <button onClick={() => ref.current?.setPlaybackRate(0.25)}>Slow</button>
+            <button onClick={() => ref.current?.setPlaybackRate(1)}>Normal</button>
+            <input
+                type='range'
+                min={0}
+                max={3600}
+                defaultValue={0}
+                onInput={(event) => {
+                    ref.current?.pause();
+                    setPlaying(false);
+                    ref.current?.seek(Number(event.currentTarget.value) * 10);
+                }}
+            />
+        </div>
+    );
+};
+
+export const Scrubber: Story = {
+    args: {
+        gradient: (time) => `linear-gradient(${time / 10}deg, #000428, #004e92)`,
+        children: innerElement,
+    },
+    render: (args) => <ScrubberExample {...args} />,
+};
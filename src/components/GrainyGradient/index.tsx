@@ -1,12 +1,14 @@
-import type { ReactElement, ReactNode } from 'react';
-import { useEffect, useRef, useState } from 'react';
+import type { ForwardedRef, ReactElement, ReactNode } from 'react';
+import { forwardRef, useCallback, useEffect, useRef, useState } from 'react';
 
 import styles from './styles.module.css';
 import type { GrainyGradientProps } from '../../lib/canvas';
+import type { GrainyGradientHandle } from '../../lib/core';
 import { Canvas } from '../../lib/canvas';
+import { usePrefersReducedMotion } from '../../lib/hooks';
 
 interface ComponentProps extends GrainyGradientProps {
-    /** Whether to render a gradient background if the WebGL context fails to load. */
+    /** Whether to render a gradient background if the WebGL context fails to load. `false` is the same as `fallbackMode='none'`. */
     fallbackBackground?: boolean;
     /** Standard React `className` property. */
     className?: string;
@@ -18,24 +20,72 @@ interface ComponentProps extends GrainyGradientProps {
     style?: React.CSSProperties;
 }
 
-/**
- * Grainy gradient renderer using WebGL.
- */
-export function GrainyGradient({
-    gradient,
-    fallbackBackground = true,
-    debugShowFallback = false,
-    className,
-    canvasClassName,
-    style,
-    children,
-    ...props
-}: ComponentProps): ReactElement {
+function GrainyGradientComponent(
+    {
+        gradient,
+        fallbackBackground = true,
+        fallbackMode = 'css',
+        debugShowFallback = false,
+        blendMode,
+        onReady,
+        onContextError,
+        onContextLost,
+        onContextRestored,
+        transitionDuration = 0,
+        transitionEasing = 'ease',
+        reducedMotion = 'respect',
+        className,
+        canvasClassName,
+        style,
+        children,
+        ...props
+    }: ComponentProps,
+    ref: ForwardedRef<GrainyGradientHandle>
+): ReactElement {
     const containerRef = useRef<HTMLDivElement | null>(null);
     const [dim, setDim] = useState<{ width: number; height: number }>({
         width: 0,
         height: 0,
     });
+    // Once the canvas has drawn, the fallback would show through its transparent parts
+    const [canvasReady, setCanvasReady] = useState(false);
+
+    // CSS can't animate between gradients, so the old fallback fades out on top of the new one
+    const gradientString = typeof gradient === 'string' ? gradient : null;
+    const [shownGradient, setShownGradient] = useState(gradientString);
+    const [fadingGradient, setFadingGradient] = useState<string | null>(null);
+    const reduceMotion = usePrefersReducedMotion() && reducedMotion === 'respect';
+    if (gradientString !== shownGradient) {
+        setShownGradient(gradientString);
+        setFadingGradient(
+            transitionDuration > 0 && gradientString && !reduceMotion ? shownGradient : null
+        );
+    }
+
+    const handleReady = useCallback(() => {
+        setCanvasReady(true);
+        onReady?.();
+    }, [onReady]);
+
+    // A context that failed after drawing shows the CSS fallback again
+    const handleContextError = useCallback<NonNullable<GrainyGradientProps['onContextError']>>(
+        (error, fallback) => {
+            if (fallback === 'css') setCanvasReady(false);
+            onContextError?.(error, fallback);
+        },
+        [onContextError]
+    );
+
+    // Show the fallback again while the context is lost
+    const handleContextLost = useCallback(() => {
+        setCanvasReady(false);
+        onContextLost?.();
+    }, [onContextLost]);
+
+    const handleContextRestored = useCallback(() => {
+        setCanvasReady(true);
+        onContextRestored?.();
+    }, [onContextRestored]);
 
     useEffect(() => {
         const container = containerRef.current;
@@ -78,17 +128,20 @@ export function GrainyGradient({
         };
     }, []);
 
+    const showFallback =
+        (fallbackBackground && fallbackMode !== 'none' && !canvasReady) || debugShowFallback;
+
     return (
         <div
             className={`${styles.container} ${className}`}
             style={{
                 position: 'relative',
-                background:
-                    fallbackBackground || debugShowFallback
-                        ? typeof gradient === 'string'
-                            ? gradient
-                            : gradient(0, { width: dim.width, height: dim.height })
-                        : undefined,
+                background: showFallback
+                    ? typeof gradient === 'string'
+                        ? gradient
+                        : gradient(0, { width: dim.width, height: dim.height })
+                    : undefined,
+                backgroundBlendMode: Array.isArray(blendMode) ? blendMode.join(', ') : blendMode,
                 ...style,
             }}
             ref={containerRef}
@@ -98,10 +151,43 @@ export function GrainyGradient({
                 width={dim.width}
                 height={dim.height}
                 debugShowFallback={debugShowFallback}
+                fallbackMode={fallbackBackground ? fallbackMode : 'none'}
+                blendMode={blendMode}
+                onReady={handleReady}
+                onContextError={handleContextError}
+                onContextLost={handleContextLost}
+                onContextRestored={handleContextRestored}
+                transitionDuration={transitionDuration}
+                transitionEasing={transitionEasing}
+                reducedMotion={reducedMotion}
                 canvasClassName={canvasClassName}
                 {...props}
+                ref={ref}
             />
+            {showFallback && fadingGradient && (
+                <div
+                    key={fadingGradient}
+                    className={styles.fade}
+                    style={{
+                        background: fadingGradient,
+                        backgroundBlendMode: Array.isArray(blendMode)
+                            ? blendMode.join(', ')
+                            : blendMode,
+                        animationDuration: `${transitionDuration}ms`,
+                        animationTimingFunction:
+                            typeof transitionEasing === 'string' ? transitionEasing : 'linear',
+                    }}
+                    onAnimationEnd={() => setFadingGradient(null)}
+                />
+            )}
             <div className={styles.children}>{children}</div>
         </div>
     );
 }
+
+/**
+ * Grainy gradient renderer using WebGL.
+ */
+export const GrainyGradient = forwardRef<GrainyGradientHandle, ComponentProps>(
+    GrainyGradientComponent
+);
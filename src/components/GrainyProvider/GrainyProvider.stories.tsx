@@ -0,0 +1,37 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+
+import { GrainyProvider } from '.';
+import { GrainyGradient } from '../GrainyGradient';
+
+const meta = {
+    title: 'Components/GrainyProvider',
+    component: GrainyProvider,
+
+    parameters: {
+        layout: 'centered',
+    },
+
+    tags: ['autodocs'],
+} satisfies Meta<typeof GrainyProvider>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+export const CardGrid: Story = {
+    args: {
+        children: (
+            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(6, 120px)', gap: 12 }}>
+                {Array.from({ length: 30 }, (_, i) => (
+                    <GrainyGradient
+                        key={i}
+                        gradient={`linear-gradient(${i * 12}deg, hsl(${i * 12}deg 70% 40%), hsl(${i * 12 + 60}deg 80% 70%))`}
+                        noiseSeed={i}
+                        shimmerSpeed={i % 3 === 0 ? 2 : 0}
+                    >
+                        <div style={{ width: 120, height: 80 }} />
+                    </GrainyGradient>
+                ))}
+            </div>
+        ),
+    },
+};
@@ -0,0 +1,30 @@
+import type { ReactElement, ReactNode } from 'react';
+import { useEffect, useState } from 'react';
+
+import { SharedRendererContext } from '../../lib/hooks';
+import { createSharedRenderer } from '../../lib/renderer';
+
+interface ProviderProps {
+    /** Attributes passed to getContext('webgl', ...) for the shared context. Only read on mount. */
+    contextAttributes?: WebGLContextAttributes;
+    /** Standard React children. */
+    children?: ReactNode;
+}
+
+/**
+ * Draws every `GrainyGradient` inside it with one shared WebGL context,
+ * so that pages with many gradients stay under the browser's limit on contexts.
+ */
+export function GrainyProvider({ contextAttributes, children }: ProviderProps): ReactElement {
+    const [sharedRenderer] = useState(() => createSharedRenderer(contextAttributes));
+
+    useEffect(() => {
+        return () => sharedRenderer.dispose();
+    }, [sharedRenderer]);
+
+    return (
+        <SharedRendererContext.Provider value={sharedRenderer}>
+            {children}
+        </SharedRendererContext.Provider>
+    );
+}
@@ -0,0 +1,15 @@
+export { createGrainyGradient } from './lib/core';
+export type {
+    GrainyGradientController,
+    GrainyGradientHandle,
+    GrainyGradientOptions,
+} from './lib/core';
+export { validateGradient } from './lib/utils';
+export type { GradientDiagnostic } from './lib/utils';
+export { GradientParseError } from './lib/parser';
+export type {
+    ColorInterpolation,
+    GradientKeyframe,
+    KeyframeDirection,
+    KeyframeEasing,
+} from './lib/keyframes';
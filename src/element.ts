@@ -0,0 +1 @@
+export { defineGrainyGradientElement } from './lib/element';
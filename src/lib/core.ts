@@ -0,0 +1,558 @@
+import type { SharedRenderer } from './renderer';
+
+import type { RenderLoop, RenderSize } from './loop';
+import { CALLBACK_OPTIONS, createRenderLoop } from './loop';
+import type { WorkerRequest, WorkerResponse } from './worker';
+
+import { GradientParseError } from './parser';
+
+import type {
+    ColorInterpolation,
+    GradientKeyframe,
+    KeyframeDirection,
+    KeyframeEasing,
+} from './keyframes';
+
+import type {
+    FallbackMode,
+    GradientBlendMode,
+    GrainMode,
+    NoiseSeed,
+    NoiseType,
+    ReducedMotion,
+} from './utils';
+import { getFontSizeInPx, getViewportMetrics, resolveGradientVariables } from './utils';
+
+export interface GrainyGradientOptions {
+    /** Either a string or a function that returns a valid CSS gradient string. `var()` and `currentColor` are read from the element's computed style. If it can't be parsed, the last gradient that could be is drawn instead, see `onParseError`. */
+    gradient: string | ((time: number, size?: { width: number; height: number }) => string);
+    /** The resolution (side length) of the noise texture. Increase if it looks repetitive. */
+    noiseTextureSize?: number;
+    /** Seed for the noise texture. Only modify if using multiple gradients and they look samey.
+     *  Pass a list to seed each gradient layer separately, otherwise layers derive their own seed from this one.
+     * */
+    noiseSeed?: NoiseSeed | NoiseSeed[];
+    /** Distribution of the grain. `white` is random noise, `blue` spreads the grain evenly without clumps,
+     *  and the `bayer` matrices give an ordered, retro dither (`bayer` is the 8x8 matrix).
+     * */
+    noiseType?: NoiseType;
+    /** Strength of the grain from 0 to 1. At 0 the gradient is smooth, at 1 it is fully dithered. */
+    grainIntensity?: number;
+    /** `dither` picks between neighbouring stop colors per pixel, `film` adds luminance grain on top of a smooth gradient. */
+    grainMode?: GrainMode;
+    /** How each gradient layer blends with the layers below it, in the same order as the layers.
+     *  Like `background-blend-mode`, the list repeats if there are more layers than modes.
+     * */
+    blendMode?: GradientBlendMode | GradientBlendMode[];
+
+    /** Gradients to animate between, drawn instead of `gradient`, which is still used for the CSS fallback.
+     *  Every keyframe needs the same layers with the same kinds of gradient, but stop counts may differ.
+     * */
+    keyframes?: GradientKeyframe[];
+    /** Length of one iteration through `keyframes` in milliseconds. */
+    duration?: number;
+    /** How many times to play through `keyframes`. Loops forever by default. */
+    iterations?: number;
+    /** Which way to play through `keyframes`, like `animation-direction`. */
+    direction?: KeyframeDirection;
+    /** The color space stop colors are mixed in between keyframes and during transitions. */
+    colorInterpolation?: ColorInterpolation;
+    /** How long changes to a `gradient` string animate for in milliseconds, off by default. */
+    transitionDuration?: number;
+    /** Easing for changes to `gradient`, like `transition-timing-function`. */
+    transitionEasing?: KeyframeEasing;
+
+    /** Speed at which the gradient shimmers. Try different values! */
+    shimmerSpeed?: number;
+    /** Whether to preserve the aspect ratio of the gradient depending on the angle. */
+    preserveAspect?: boolean;
+    /** Pause animation even if gradient is a function or shimmerSpeed > 0 */
+    paused?: boolean;
+    /** Draw animated gradients at most this many times a second. Uncapped by default. */
+    maxFps?: number;
+    /** `respect` stops all animation while the user prefers reduced motion, `ignore` animates anyway. */
+    reducedMotion?: ReducedMotion;
+    /** Scale the internal rendering resolution relative to CSS pixels. `auto` follows the device pixel ratio. */
+    resolutionScale?: number | 'auto';
+    /** The most pixels to draw, the resolution is lowered to stay within it. */
+    maxPixels?: number;
+    /** Lower the resolution while animated frames take longer than `targetFrameTime`, and raise it again once they don't.
+     *  Frames are timed on the GPU where `EXT_disjoint_timer_query` is available, and by the time between them otherwise.
+     * */
+    adaptiveResolution?: boolean;
+    /** Time between frames in milliseconds that `adaptiveResolution` aims for, 60 frames a second by default. */
+    targetFrameTime?: number;
+    /** Called once after the first successful draw. */
+    onReady?: () => void;
+    /** Called if WebGL context fails or a rendering error occurs.
+     *  When the context fails, `fallback` is what is shown instead.
+     * */
+    onContextError?: (error: Error, fallback?: FallbackMode) => void;
+    /** What to show if WebGL isn't available. `css` is a smooth CSS gradient, `canvas2d` draws the grain
+     *  on the CPU at a lower resolution and frame rate, and `none` leaves the element empty.
+     * */
+    fallbackMode?: FallbackMode;
+    /** Called when the browser takes the WebGL context away, for example after a GPU reset. */
+    onContextLost?: () => void;
+    /** Called once a lost context is back and the gradient has been drawn again. */
+    onContextRestored?: () => void;
+    /** Called when `gradient`, the keyframes or an easing can't be parsed, or a `gradient` function throws.
+     *  The last gradient that could be is drawn instead, or the fallback shows if there hasn't been one yet,
+     *  and a bad easing is `ease`.
+     * */
+    onParseError?: (error: GradientParseError) => void;
+    /** Attributes passed to getContext('webgl', ...) */
+    contextAttributes?: WebGLContextAttributes;
+    /** Force WebGL1 context if possible. */
+    forceWebGL1?: boolean;
+    /** Time in milliseconds that the animation clock starts at, for deterministic rendering. */
+    initialTime?: number;
+
+    /** Size of the gradient in CSS pixels. Measured from the canvas when left out. */
+    width?: number;
+    height?: number;
+    /** Draw with a context shared between gradients instead of one of its own, see `createSharedRenderer`. */
+    sharedRenderer?: SharedRenderer | null;
+    /** Draw in a Web Worker, so that drawing doesn't hold up the page. Only read when the gradient is created.
+     *  Functions can't be sent to a worker, so animate with `keyframes` or `shimmerSpeed` instead of a `gradient`
+     *  function. Without OffscreenCanvas, or with a function or a shared renderer, it draws on the main thread.
+     *  A function passed later is reported to `onContextError`, and the worker keeps what it was drawing.
+     *  A worker that fails to load or throws is reported to `onContextError` too, and the CSS fallback shows.
+     * */
+    renderInWorker?: boolean;
+}
+
+/** Methods for exporting and controlling the playback of a gradient. */
+export interface GrainyGradientHandle {
+    /** Encodes the current frame, like `HTMLCanvasElement.toDataURL`. Works while paused. */
+    toDataURL: (type?: string, quality?: number) => string;
+    /** Encodes the current frame, like `HTMLCanvasElement.toBlob`. Works while paused. */
+    toBlob: (type?: string, quality?: number) => Promise<Blob | null>;
+    /** Starts the animation clock again after `pause()`. The `paused` option still wins. */
+    play: () => void;
+    /** Stops the animation clock, keeping the current frame on screen. */
+    pause: () => void;
+    /** Moves the animation clock to a time in milliseconds, drawing it straight away while paused. */
+    seek: (time: number) => void;
+    /** Speeds the animation clock up or slows it down, `1` is real time. */
+    setPlaybackRate: (rate: number) => void;
+    /** Draws the frame for the current clock time, for driving the gradient from outside. */
+    renderFrame: () => void;
+    /** The canvas the gradient is drawn on, once it is mounted. */
+    getCanvas: () => HTMLCanvasElement | null;
+}
+
+export interface GrainyGradientController extends GrainyGradientHandle {
+    /** Changes some of the options, leaving the rest as they are. `undefined` goes back to the default. */
+    update: (options: Partial<GrainyGradientOptions>) => void;
+    /** Measures the canvas again. Only needed where ResizeObserver isn't available. */
+    resize: () => void;
+    /** Stops drawing and releases the WebGL context, removing the canvas if it was created for a container. */
+    destroy: () => void;
+}
+
+/** Whether every function in the options is a callback, which the main thread keeps. */
+function canRenderInWorker({
+    gradient,
+    transitionEasing,
+    keyframes,
+}: Partial<GrainyGradientOptions>) {
+    return (
+        typeof gradient !== 'function' &&
+        typeof transitionEasing !== 'function' &&
+        !keyframes?.some(({ easing }) => typeof easing === 'function')
+    );
+}
+
+// Options that are functions can't be sent, so they are left out and the worker keeps what it had
+function toWorkerOptions<T extends Partial<GrainyGradientOptions>>(options: T): T {
+    const entries = Object.entries(options).filter(
+        ([key, value]) =>
+            !CALLBACK_OPTIONS.has(key) &&
+            key !== 'sharedRenderer' &&
+            canRenderInWorker({ [key]: value })
+    );
+    return Object.fromEntries(entries) as T;
+}
+
+// A canvas can only hand its control over once, so a worker is kept for a moment after it is no longer
+// needed, in case a new gradient takes the canvas over again (like React does when it mounts twice)
+const canvasWorkers = new WeakMap<
+    HTMLCanvasElement,
+    { worker: Worker; terminate: ReturnType<typeof setTimeout> | null }
+>();
+
+/** Draws in a worker that the canvas hands its control over to, or returns null if it can't. */
+function createWorkerRenderLoop(
+    canvas: HTMLCanvasElement,
+    getOptions: () => GrainyGradientOptions,
+    size: RenderSize
+): (RenderLoop & Pick<GrainyGradientHandle, 'toBlob'>) | null {
+    const options = getOptions();
+    if (options.sharedRenderer || !canRenderInWorker(options)) return null;
+
+    let offscreen: OffscreenCanvas | undefined;
+    let entry = canvasWorkers.get(canvas);
+    if (entry) {
+        if (entry.terminate !== null) clearTimeout(entry.terminate);
+        entry.terminate = null;
+    } else {
+        if (typeof Worker === 'undefined' || !('transferControlToOffscreen' in canvas)) return null;
+        try {
+            offscreen = canvas.transferControlToOffscreen();
+        } catch (_err) {
+            // The canvas already has a context
+            return null;
+        }
+        entry = {
+            worker: new Worker(new URL('./worker.ts', import.meta.url), { type: 'module' }),
+            terminate: null,
+        };
+        canvasWorkers.set(canvas, entry);
+    }
+    const session = entry;
+    const post = (request: WorkerRequest, transfer: Transferable[] = []) =>
+        session.worker.postMessage(request, transfer);
+
+    const reportedFunctions = new WeakSet<object>();
+    const pendingBlobs = new Map<number, (blob: Blob | null) => void>();
+    let nextBlobId = 0;
+
+    const handleMessage = ({ data: response }: MessageEvent<WorkerResponse>) => {
+        const { onReady, onContextError, onContextLost, onContextRestored, onParseError } =
+            getOptions();
+        switch (response.type) {
+            case 'ready':
+                return onReady?.();
+            case 'contexterror':
+                return onContextError?.(new Error(response.message), response.fallback);
+            case 'contextlost':
+                return onContextLost?.();
+            case 'contextrestored':
+                return onContextRestored?.();
+            case 'parseerror': {
+                const { input, reason, position, unsupported } = response;
+                return onParseError?.(new GradientParseError(input, reason, position, unsupported));
+            }
+            case 'blob':
+                pendingBlobs.get(response.id)?.(response.blob);
+                pendingBlobs.delete(response.id);
+        }
+    };
+    // A worker that fails to load or throws can't hand the canvas back, so the CSS fallback shows instead
+    let failed = false;
+    const handleError = (event: Event) => {
+        if (failed) return;
+        failed = true;
+        // The canvas can't be cleared from here, so the last frame is hidden rather than left frozen
+        canvas.style.visibility = 'hidden';
+        const { onContextError, fallbackMode } = getOptions();
+        const message =
+            event instanceof ErrorEvent && event.message
+                ? event.message
+                : event.type === 'messageerror'
+                  ? 'the worker sent a message that could not be read'
+                  : 'the worker could not be loaded';
+        onContextError?.(Error(message), fallbackMode === 'none' ? 'none' : 'css');
+    };
+    session.worker.addEventListener('message', handleMessage);
+    session.worker.addEventListener('error', handleError);
+    session.worker.addEventListener('messageerror', handleError);
+    post(
+        { type: 'init', canvas: offscreen, options: toWorkerOptions(options), size },
+        offscreen ? [offscreen] : []
+    );
+
+    return {
+        update: (next) => {
+            // The canvas belongs to the worker now, so this can't move back to the main thread.
+            // Options are passed again on every render, so each function is only reported once
+            const rejected = (['gradient', 'transitionEasing', 'keyframes'] as const)
+                .filter((key) => !canRenderInWorker({ [key]: next[key] }))
+                .map((key) => next[key] as object);
+            if (rejected.some((value) => !reportedFunctions.has(value))) {
+                rejected.forEach((value) => reportedFunctions.add(value));
+                getOptions().onContextError?.(
+                    Error("functions can't be sent to a worker, animate with keyframes instead")
+                );
+            }
+            post({ type: 'update', args: [toWorkerOptions(next)] });
+        },
+        setSize: (next) => post({ type: 'setSize', args: [next] }),
+        setVisible: (visible) => post({ type: 'setVisible', args: [visible] }),
+        setPrefersReducedMotion: (reduced) =>
+            post({ type: 'setPrefersReducedMotion', args: [reduced] }),
+        play: () => post({ type: 'play', args: [] }),
+        pause: () => post({ type: 'pause', args: [] }),
+        seek: (time) => post({ type: 'seek', args: [time] }),
+        setPlaybackRate: (rate) => post({ type: 'setPlaybackRate', args: [rate] }),
+        draw: () => {
+            post({ type: 'draw' });
+            return true;
+        },
+        toBlob: (type, quality) =>
+            new Promise((resolve) => {
+                const id = nextBlobId++;
+                pendingBlobs.set(id, resolve);
+                post({ type: 'toBlob', id, mimeType: type, quality });
+            }),
+        destroy: () => {
+            session.worker.removeEventListener('message', handleMessage);
+            session.worker.removeEventListener('error', handleError);
+            session.worker.removeEventListener('messageerror', handleError);
+            pendingBlobs.forEach((resolve) => resolve(null));
+            post({ type: 'destroy' });
+            session.terminate = setTimeout(() => {
+                session.worker.terminate();
+                canvasWorkers.delete(canvas);
+            });
+        },
+    };
+}
+
+// Resolved strings are dropped all at once past this, a gradient function can make a new one every frame
+const MAX_RESOLVED_GRADIENTS = 64;
+
+/**
+ * Resolves `var()` and `currentColor` in gradients against an element's computed style. The values it
+ * read are remembered, so `hasChanged` can tell whether a theme change affects the gradient at all.
+ */
+function createThemeResolver(element: Element) {
+    const values = new Map<string, string>();
+    const resolved = new Map<string, string>();
+    let gradientFunction: {
+        source: GrainyGradientOptions['gradient'];
+        wrapped: GrainyGradientOptions['gradient'];
+    } | null = null;
+    let keyframes: { source: GradientKeyframe[]; wrapped: GradientKeyframe[] } | null = null;
+
+    const resolveString = (gradient: string) => {
+        let result = resolved.get(gradient);
+        if (result === undefined) {
+            const style = getComputedStyle(element);
+            result = resolveGradientVariables(gradient, (property) => {
+                const value = style.getPropertyValue(property);
+                values.set(property, value);
+                return value;
+            });
+            if (resolved.size >= MAX_RESOLVED_GRADIENTS) resolved.clear();
+            resolved.set(gradient, result);
+        }
+        return result;
+    };
+
+    return {
+        hasChanged: () => {
+            const style = getComputedStyle(element);
+            return [...values].some(
+                ([property, value]) => style.getPropertyValue(property) !== value
+            );
+        },
+        /** Forgets everything resolved so far, so that the next options resolve to new gradients. */
+        reset: () => {
+            values.clear();
+            resolved.clear();
+            gradientFunction = null;
+            keyframes = null;
+        },
+        /** Resolves the gradients in `options`, returning the same functions and arrays until `reset`. */
+        resolve: <T extends Partial<GrainyGradientOptions>>(options: T): T => {
+            const next = { ...options };
+            const { gradient } = options;
+            if (typeof gradient === 'string') {
+                next.gradient = resolveString(gradient);
+            } else if (gradient) {
+                if (gradientFunction?.source !== gradient) {
+                    gradientFunction = {
+                        source: gradient,
+                        wrapped: (time, size) => resolveString(gradient(time, size)),
+                    };
+                }
+                next.gradient = gradientFunction.wrapped;
+            }
+            if (options.keyframes) {
+                if (keyframes?.source !== options.keyframes) {
+                    keyframes = {
+                        source: options.keyframes,
+                        wrapped: options.keyframes.map((keyframe) => ({
+                            ...keyframe,
+                            gradient: resolveString(keyframe.gradient),
+                        })),
+                    };
+                }
+                next.keyframes = keyframes.wrapped;
+            }
+            return next;
+        },
+    };
+}
+
+/**
+ * Draws a grainy gradient on a canvas and keeps it animated, without any framework. Pass a canvas
+ * to draw on it directly, or any other element to fill it with a new canvas.
+ */
+export function createGrainyGradient(
+    target: HTMLCanvasElement | HTMLElement,
+    initialOptions: GrainyGradientOptions
+): GrainyGradientController {
+    const ownsCanvas = !(target instanceof HTMLCanvasElement);
+    const canvas = ownsCanvas ? document.createElement('canvas') : target;
+    const restorePosition = ownsCanvas ? target.style.position : '';
+    if (ownsCanvas) {
+        Object.assign(canvas.style, {
+            position: 'absolute',
+            inset: '0',
+            width: '100%',
+            height: '100%',
+            zIndex: '0',
+            borderRadius: 'inherit',
+        });
+        // The canvas is placed over the container, so the container needs to be positioned
+        if (getComputedStyle(target).position === 'static') target.style.position = 'relative';
+        target.prepend(canvas);
+    }
+
+    let options: GrainyGradientOptions = { ...initialOptions };
+    let destroyed = false;
+
+    const measure = (): RenderSize => {
+        const rect = canvas.getBoundingClientRect();
+        const viewport = getViewportMetrics();
+        return {
+            width: Math.max(0, Math.round(options.width ?? rect.width)),
+            height: Math.max(0, Math.round(options.height ?? rect.height)),
+            devicePixelRatio: window.devicePixelRatio || 1,
+            fontSize: getFontSizeInPx(canvas),
+            rootFontSize: viewport.rootFontSize,
+            viewportWidth: viewport.width,
+            viewportHeight: viewport.height,
+        };
+    };
+
+    // Custom properties and currentColor come from the element the gradient is drawn in
+    const theme = createThemeResolver(target);
+    const workerLoop = options.renderInWorker
+        ? createWorkerRenderLoop(canvas, () => theme.resolve(options), measure())
+        : null;
+    const loop: RenderLoop =
+        workerLoop ?? createRenderLoop(canvas, theme.resolve(options), measure());
+
+    const resize = () => {
+        if (!destroyed) loop.setSize(measure());
+    };
+
+    // Animation is suspended while nobody can see it, and frozen when the user asks for less motion
+    let inView = true;
+    let documentVisible = document.visibilityState !== 'hidden';
+    const updateVisible = () => loop.setVisible(inView && documentVisible);
+
+    const handleVisibilityChange = () => {
+        documentVisible = document.visibilityState !== 'hidden';
+        updateVisible();
+    };
+    const intersectionObserver =
+        typeof IntersectionObserver === 'undefined'
+            ? null
+            : new IntersectionObserver(
+                  (entries) => {
+                      const entry = entries[entries.length - 1];
+                      if (!entry) return;
+                      inView = entry.isIntersecting;
+                      updateVisible();
+                  },
+                  { rootMargin: '100px' }
+              );
+    const resizeObserver =
+        typeof ResizeObserver === 'undefined' ? null : new ResizeObserver(resize);
+
+    const reducedMotionQuery = window.matchMedia?.('(prefers-reduced-motion: reduce)') ?? null;
+    const handleReducedMotionChange = () =>
+        loop.setPrefersReducedMotion(!!reducedMotionQuery?.matches);
+
+    // Themes switch by changing a class or style somewhere above the element, or by following the
+    // color scheme, so those are watched for custom properties that the gradient reads changing
+    const handleThemeChange = () => {
+        if (destroyed || !theme.hasChanged()) return;
+        theme.reset();
+        loop.update(theme.resolve({ gradient: options.gradient, keyframes: options.keyframes }));
+    };
+    const themeObserver =
+        typeof MutationObserver === 'undefined' ? null : new MutationObserver(handleThemeChange);
+    const colorSchemeQuery = window.matchMedia?.('(prefers-color-scheme: dark)') ?? null;
+
+    // The query only matches the current pixel ratio, so it changes whenever the ratio does
+    let pixelRatioQuery: MediaQueryList | null = null;
+    const watchPixelRatio = () => {
+        pixelRatioQuery?.removeEventListener('change', handlePixelRatioChange);
+        pixelRatioQuery =
+            window.matchMedia?.(`(resolution: ${window.devicePixelRatio || 1}dppx)`) ?? null;
+        pixelRatioQuery?.addEventListener('change', handlePixelRatioChange);
+    };
+    const handlePixelRatioChange = () => {
+        watchPixelRatio();
+        resize();
+    };
+
+    intersectionObserver?.observe(canvas);
+    resizeObserver?.observe(canvas);
+    // Custom properties are inherited, so any of the element's ancestors can change them, up through shadow roots
+    for (let node: Node | null = target; node; ) {
+        themeObserver?.observe(node, { attributes: true, attributeFilter: ['class', 'style'] });
+        node = node instanceof ShadowRoot ? node.host : node.parentNode;
+    }
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    // Viewport units change with the window even when the canvas keeps its size
+    window.addEventListener('resize', resize);
+    reducedMotionQuery?.addEventListener('change', handleReducedMotionChange);
+    colorSchemeQuery?.addEventListener('change', handleThemeChange);
+    watchPixelRatio();
+    updateVisible();
+    handleReducedMotionChange();
+
+    // Drawing and reading back happen in the same task, before a WebGL canvas is cleared for the next frame
+    return {
+        update: (next) => {
+            if (destroyed) return;
+            options = { ...options, ...next };
+            loop.update(theme.resolve(next));
+            // The size or font size may have changed along with the options
+            resize();
+        },
+        resize,
+        destroy: () => {
+            if (destroyed) return;
+            destroyed = true;
+            intersectionObserver?.disconnect();
+            resizeObserver?.disconnect();
+            themeObserver?.disconnect();
+            document.removeEventListener('visibilitychange', handleVisibilityChange);
+            window.removeEventListener('resize', resize);
+            reducedMotionQuery?.removeEventListener('change', handleReducedMotionChange);
+            colorSchemeQuery?.removeEventListener('change', handleThemeChange);
+            pixelRatioQuery?.removeEventListener('change', handlePixelRatioChange);
+            loop.destroy();
+            if (ownsCanvas) {
+                canvas.remove();
+                target.style.position = restorePosition;
+            }
+        },
+        toDataURL: (type, quality) => {
+            if (workerLoop) throw Error('toDataURL is not available when drawing in a worker');
+            loop.draw();
+            return canvas.toDataURL(type, quality);
+        },
+        toBlob: (type, quality) => {
+            if (workerLoop) return workerLoop.toBlob(type, quality);
+            loop.draw();
+            return new Promise((resolve) => canvas.toBlob(resolve, type, quality));
+        },
+        play: () => loop.play(),
+        pause: () => loop.pause(),
+        seek: (time) => loop.seek(time),
+        setPlaybackRate: (rate) => loop.setPlaybackRate(rate),
+        renderFrame: () => {
+            loop.draw();
+        },
+        getCanvas: () => (destroyed ? null : canvas),
+    };
+}
@@ -0,0 +1,223 @@
+import type { GrainyGradientController, GrainyGradientOptions } from './core';
+import { createGrainyGradient } from './core';
+
+import type { GradientKeyframe } from './keyframes';
+import type { GradientBlendMode } from './utils';
+
+type AttributeParser = (value: string) => unknown;
+
+const toNumber: AttributeParser = (value) => Number(value);
+// Like HTML boolean attributes, except that `"false"` turns them off for options that default to on
+const toBoolean: AttributeParser = (value) => value !== 'false';
+const toString: AttributeParser = (value) => value;
+
+/** Attributes of `<grainy-gradient>`, the kebab-case names of the options they set. */
+const ATTRIBUTES: Record<string, [keyof GrainyGradientOptions, AttributeParser]> = {
+    gradient: ['gradient', toString],
+    'noise-texture-size': ['noiseTextureSize', toNumber],
+    'noise-seed': ['noiseSeed', (value) => (value.trim() && !isNaN(+value) ? +value : value)],
+    'noise-type': ['noiseType', toString],
+    'grain-intensity': ['grainIntensity', toNumber],
+    'grain-mode': ['grainMode', toString],
+    'blend-mode': [
+        'blendMode',
+        (value) => value.split(',').map((mode) => mode.trim() as GradientBlendMode),
+    ],
+    duration: ['duration', toNumber],
+    iterations: ['iterations', toNumber],
+    direction: ['direction', toString],
+    'color-interpolation': ['colorInterpolation', toString],
+    'transition-duration': ['transitionDuration', toNumber],
+    'transition-easing': ['transitionEasing', toString],
+    'shimmer-speed': ['shimmerSpeed', toNumber],
+    'preserve-aspect': ['preserveAspect', toBoolean],
+    paused: ['paused', toBoolean],
+    'max-fps': ['maxFps', toNumber],
+    'reduced-motion': ['reducedMotion', toString],
+    'resolution-scale': ['resolutionScale', (value) => (value === 'auto' ? value : Number(value))],
+    'max-pixels': ['maxPixels', toNumber],
+    'adaptive-resolution': ['adaptiveResolution', toBoolean],
+    'target-frame-time': ['targetFrameTime', toNumber],
+    'fallback-mode': ['fallbackMode', toString],
+    'force-webgl1': ['forceWebGL1', toBoolean],
+    'initial-time': ['initialTime', toNumber],
+    'render-in-worker': ['renderInWorker', toBoolean],
+};
+
+const STYLES = `
+:host {
+    display: block;
+    position: relative;
+    overflow: hidden;
+}
+
+.fallback {
+    position: absolute;
+    inset: 0;
+}
+
+canvas {
+    position: absolute;
+    inset: 0;
+    width: 100%;
+    height: 100%;
+    border-radius: inherit;
+}
+
+.children {
+    position: relative;
+}
+`;
+
+/** The `<grainy-gradient>` element class, which needs `HTMLElement` so is only made in the browser. */
+function createElementClass() {
+    return class GrainyGradientElement extends HTMLElement {
+        static observedAttributes = [
+            ...Object.keys(ATTRIBUTES),
+            'pixelated',
+            'debug-show-fallback',
+            'fallback-background',
+        ];
+
+        #controller: GrainyGradientController | null = null;
+        #canvas: HTMLCanvasElement;
+        #fallback: HTMLDivElement;
+        #ready = false;
+        #keyframes: GradientKeyframe[] | undefined;
+        #contextAttributes: WebGLContextAttributes | undefined;
+
+        // The option callbacks are dispatched as events on the element
+        #callbacks: Partial<GrainyGradientOptions> = {
+            onReady: () => this.#setReady(true, 'ready'),
+            onContextError: (error, fallback) => {
+                // A context that failed after drawing shows the CSS fallback again
+                if (fallback === 'css') {
+                    this.#ready = false;
+                    this.#updateFallback();
+                }
+                this.dispatchEvent(
+                    new CustomEvent('contexterror', { detail: { error, fallback } })
+                );
+            },
+            onContextLost: () => this.#setReady(false, 'contextlost'),
+            onContextRestored: () => this.#setReady(true, 'contextrestored'),
+            onParseError: (error) =>
+                this.dispatchEvent(new CustomEvent('parseerror', { detail: { error } })),
+        };
+
+        constructor() {
+            super();
+            const root = this.attachShadow({ mode: 'open' });
+            const style = document.createElement('style');
+            style.textContent = STYLES;
+            this.#fallback = document.createElement('div');
+            this.#fallback.className = 'fallback';
+            this.#canvas = document.createElement('canvas');
+            const children = document.createElement('div');
+            children.className = 'children';
+            children.append(document.createElement('slot'));
+            root.append(style, this.#fallback, this.#canvas, children);
+        }
+
+        /** Gradients to animate between, see the `keyframes` option. Only settable as a property. */
+        get keyframes() {
+            return this.#keyframes;
+        }
+
+        set keyframes(keyframes: GradientKeyframe[] | undefined) {
+            this.#keyframes = keyframes;
+            this.#update();
+        }
+
+        /** Attributes passed to getContext('webgl', ...). Only settable as a property. */
+        get contextAttributes() {
+            return this.#contextAttributes;
+        }
+
+        set contextAttributes(contextAttributes: WebGLContextAttributes | undefined) {
+            this.#contextAttributes = contextAttributes;
+            this.#update();
+        }
+
+        /** The controller drawing the gradient while the element is connected, for playback and exporting. */
+        get controller() {
+            return this.#controller;
+        }
+
+        connectedCallback() {
+            this.#controller = createGrainyGradient(this.#canvas, this.#getOptions());
+            this.#updateFallback();
+        }
+
+        disconnectedCallback() {
+            this.#controller?.destroy();
+            this.#controller = null;
+            this.#ready = false;
+        }
+
+        attributeChangedCallback() {
+            this.#update();
+        }
+
+        #update() {
+            this.#controller?.update(this.#getOptions());
+            this.#updateFallback();
+        }
+
+        #getOptions(): GrainyGradientOptions {
+            const options: Partial<Record<keyof GrainyGradientOptions, unknown>> = {};
+            for (const [attribute, [option, parse]] of Object.entries(ATTRIBUTES)) {
+                const value = this.getAttribute(attribute);
+                options[option] = value === null ? undefined : parse(value);
+            }
+            if (this.getAttribute('fallback-background') === 'false') options.fallbackMode = 'none';
+            return {
+                ...(options as GrainyGradientOptions),
+                gradient: this.getAttribute('gradient') ?? '',
+                keyframes: this.#keyframes,
+                contextAttributes: this.#contextAttributes,
+                ...this.#callbacks,
+            };
+        }
+
+        #setReady(ready: boolean, event: string) {
+            this.#ready = ready;
+            this.#updateFallback();
+            this.dispatchEvent(new Event(event));
+        }
+
+        // The CSS gradient shows until the canvas has drawn, and while the context is lost
+        #updateFallback() {
+            const debugShowFallback = toBoolean(
+                this.getAttribute('debug-show-fallback') ?? 'false'
+            );
+            const showFallback =
+                (this.getAttribute('fallback-background') !== 'false' &&
+                    this.getAttribute('fallback-mode') !== 'none' &&
+                    !this.#ready) ||
+                debugShowFallback;
+            const blendMode = this.getAttribute('blend-mode');
+
+            this.#fallback.style.background = showFallback
+                ? (this.getAttribute('gradient') ?? '')
+                : '';
+            this.#fallback.style.backgroundBlendMode = blendMode ?? '';
+            this.#canvas.style.visibility = debugShowFallback ? 'hidden' : '';
+            this.#canvas.style.imageRendering = toBoolean(this.getAttribute('pixelated') ?? 'false')
+                ? 'pixelated'
+                : '';
+        }
+    };
+}
+
+/**
+ * Registers the `<grainy-gradient>` custom element, which takes the same options as `GrainyGradient`
+ * as kebab-case attributes. `keyframes` and `contextAttributes` can only be set as properties.
+ */
+export function defineGrainyGradientElement(tagName = 'grainy-gradient'): CustomElementConstructor {
+    const existing = customElements.get(tagName);
+    if (existing) return existing;
+    const element = createElementClass();
+    customElements.define(tagName, element);
+    return element;
+}
@@ -0,0 +1,167 @@
+import type { GrainyGradientOptions } from './core';
+import type { ReferenceRenderOptions } from './reference';
+import { renderGrainyGradientToImageData } from './reference';
+import type { GradientRenderer } from './renderer';
+import { createGradientRenderer, getWebGLContext, renderGradient } from './renderer';
+import { getFontSizeInPx } from './utils';
+
+export interface ExportOptions extends ReferenceRenderOptions {
+    gradient: GrainyGradientOptions['gradient'];
+    /** Size of the image in pixels. */
+    width: number;
+    height: number;
+    /** Image format, `image/png` by default. */
+    type?: string;
+    /** Quality from 0 to 1 for lossy formats. */
+    quality?: number;
+}
+
+export interface ExportFramesOptions extends ExportOptions {
+    /** Length of the animation in milliseconds, starting at `time`. */
+    duration: number;
+    /** Frames per second, 30 by default. */
+    fps?: number;
+}
+
+export interface ExportedFrame {
+    /** The time the frame was drawn at, in milliseconds. */
+    time: number;
+    blob: Blob;
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type?: string, quality?: number) {
+    return new Promise<Blob>((resolve, reject) => {
+        canvas.toBlob(
+            (blob) => (blob ? resolve(blob) : reject(new Error('could not encode gradient'))),
+            type,
+            quality
+        );
+    });
+}
+
+/**
+ * An offscreen canvas that draws gradients at a fixed size, on the GPU when it can and on the CPU
+ * when WebGL isn't available or the size is more than the GPU can draw.
+ */
+function createExportCanvas(width: number, height: number) {
+    if (typeof document === 'undefined') throw Error('exporting needs a document to draw in');
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+
+    let gl: WebGLRenderingContext | null = null;
+    let renderer: GradientRenderer | null = null;
+    try {
+        // Keep the drawing around, it is only encoded after the frame would normally be shown
+        gl = getWebGLContext(canvas, {
+            preserveDrawingBuffer: true,
+            premultipliedAlpha: true,
+        });
+        const [maxWidth, maxHeight] = (gl?.getParameter(
+            gl.MAX_VIEWPORT_DIMS
+        ) as Int32Array | null) ?? [0, 0];
+        if (gl && width <= maxWidth && height <= maxHeight) renderer = createGradientRenderer(gl);
+    } catch {
+        renderer = null;
+    }
+    // A canvas that has a WebGL context can't also have a 2D one, so the CPU draws on a new canvas
+    const target = renderer ? canvas : document.createElement('canvas');
+    target.width = width;
+    target.height = height;
+
+    const draw = (gradient: ExportOptions['gradient'], options: ReferenceRenderOptions) => {
+        if (!renderer) {
+            const { data } = renderGrainyGradientToImageData(gradient, width, height, options);
+            target.getContext('2d')?.putImageData(new ImageData(data, width, height), 0, 0);
+            return target;
+        }
+
+        const {
+            noiseTextureSize = 256,
+            noiseSeed = 0xcafe,
+            noiseType = 'white',
+            grainIntensity = 1,
+            grainMode = 'dither',
+            blendMode = 'normal',
+            shimmerSpeed = 0,
+            preserveAspect = true,
+            time = 0,
+            fontSize = getFontSizeInPx(),
+        } = options;
+        renderGradient(
+            renderer,
+            width,
+            height,
+            typeof gradient === 'string' ? gradient : gradient(time, { width, height }),
+            Math.max(1, Number.isFinite(noiseTextureSize) ? noiseTextureSize : 256),
+            shimmerSpeed * time,
+            preserveAspect,
+            noiseSeed,
+            noiseType,
+            Number.isFinite(grainIntensity) ? Math.min(Math.max(grainIntensity, 0), 1) : 1,
+            grainMode,
+            Array.isArray(blendMode) ? blendMode : [blendMode],
+            fontSize
+        );
+        return target;
+    };
+
+    return {
+        draw,
+        dispose: () => {
+            renderer?.dispose();
+            // Browsers only allow a few contexts at once and drop the oldest ones, which could be
+            // gradients on the page, so the context is let go of straight away rather than collected
+            gl?.getExtension('WEBGL_lose_context')?.loseContext();
+        },
+    };
+}
+
+/**
+ * Renders a gradient offscreen at any size and encodes it as an image.
+ * The same options, seed and time always give the same image.
+ */
+export async function exportGrainyGradient({
+    gradient,
+    width,
+    height,
+    type,
+    quality,
+    ...options
+}: ExportOptions): Promise<Blob> {
+    const [w, h] = [Math.max(1, Math.round(width)), Math.max(1, Math.round(height))];
+    const exportCanvas = createExportCanvas(w, h);
+    try {
+        return await canvasToBlob(exportCanvas.draw(gradient, options), type, quality);
+    } finally {
+        exportCanvas.dispose();
+    }
+}
+
+/**
+ * Renders the frames of an animated gradient function or shimmer, one image per frame.
+ */
+export async function* exportFrames({
+    gradient,
+    width,
+    height,
+    type,
+    quality,
+    duration,
+    fps = 30,
+    time = 0,
+    ...options
+}: ExportFramesOptions): AsyncGenerator<ExportedFrame> {
+    const [w, h] = [Math.max(1, Math.round(width)), Math.max(1, Math.round(height))];
+    const count = Math.max(1, Math.ceil((duration / 1000) * fps));
+    const exportCanvas = createExportCanvas(w, h);
+    try {
+        for (let frame = 0; frame < count; frame += 1) {
+            const frameTime = time + (frame * 1000) / fps;
+            const canvas = exportCanvas.draw(gradient, { ...options, time: frameTime });
+            yield { time: frameTime, blob: await canvasToBlob(canvas, type, quality) };
+        }
+    } finally {
+        exportCanvas.dispose();
+    }
+}
@@ -0,0 +1,25 @@
+import { createContext, useEffect, useState } from 'react';
+
+import type { SharedRenderer } from './renderer';
+
+/** The shared renderer of the closest `GrainyProvider`, if there is one. */
+export const SharedRendererContext = createContext<SharedRenderer | null>(null);
+
+/** Whether the user asked for less motion, following changes to the setting while the page is open. */
+export function usePrefersReducedMotion(): boolean {
+    const query = '(prefers-reduced-motion: reduce)';
+    const [reduced, setReduced] = useState(
+        () => typeof window !== 'undefined' && !!window.matchMedia?.(query).matches
+    );
+
+    useEffect(() => {
+        if (typeof window === 'undefined' || !window.matchMedia) return;
+        const media = window.matchMedia(query);
+        const handler = () => setReduced(media.matches);
+        handler();
+        media.addEventListener('change', handler);
+        return () => media.removeEventListener('change', handler);
+    }, []);
+
+    return reduced;
+}
@@ -0,0 +1,195 @@
+import { describe, expect, it } from 'vitest';
+
+import type { ColorInterpolation, GradientKeyframe } from './keyframes';
+import { getKeyframeProgress, parseEasing, resolveKeyframes, sampleKeyframes } from './keyframes';
+import { GradientParseError } from './parser';
+
+const viewport = { rootFontSize: 16, width: 1000, height: 500 };
+
+function resolve(gradients: string[]) {
+    const keyframes: GradientKeyframe[] = gradients.map((gradient) => ({ gradient }));
+    return resolveKeyframes(keyframes, 100, 100, true, 16, viewport);
+}
+
+function expectColor(actual: number[], expected: number[]) {
+    actual.forEach((value, i) => expect(value).toBeCloseTo(expected[i], 3));
+}
+
+describe('parseEasing', () => {
+    it('passes functions and linear through', () => {
+        const easing = (progress: number) => progress ** 2;
+        expect(parseEasing(easing)).toBe(easing);
+        expect(parseEasing('linear')(0.3)).toBe(0.3);
+        expect(parseEasing()(0.3)).toBe(0.3);
+    });
+
+    it('matches the CSS keywords', () => {
+        // Values browsers give for the same timing functions
+        expect(parseEasing('ease')(0.5)).toBeCloseTo(0.8024, 3);
+        expect(parseEasing('ease-in')(0.5)).toBeCloseTo(0.3153, 3);
+        expect(parseEasing('ease-out')(0.5)).toBeCloseTo(0.6847, 3);
+        expect(parseEasing('ease-in-out')(0.5)).toBeCloseTo(0.5, 3);
+    });
+
+    it('reads cubic-bezier()', () => {
+        const linear = parseEasing('cubic-bezier(0, 0, 1, 1)');
+        for (const progress of [0.1, 0.25, 0.5, 0.9]) {
+            expect(linear(progress)).toBeCloseTo(progress, 4);
+        }
+        // y can overshoot, x can't
+        const overshoot = parseEasing('cubic-bezier(0.3, 1.5, 0.7, -0.5)');
+        expect(overshoot(0.2)).toBeGreaterThan(0.2);
+    });
+
+    it('starts at 0 and ends at 1', () => {
+        const easing = parseEasing('cubic-bezier(0.3, 1.5, 0.7, -0.5)');
+        expect(easing(-1)).toBe(0);
+        expect(easing(0)).toBe(0);
+        expect(easing(1)).toBe(1);
+        expect(easing(2)).toBe(1);
+    });
+
+    it.each([
+        'bounce',
+        'cubic-bezier(0, 0, 1)',
+        'cubic-bezier(1.5, 0, 0.5, 1)',
+        'cubic-bezier(0, 0, -0.5, 1)',
+        'cubic-bezier(a, 0, 1, 1)',
+    ])('rejects %s', (easing) => {
+        expect(() => parseEasing(easing as `cubic-bezier(${string})`)).toThrow(GradientParseError);
+    });
+});
+
+describe('getKeyframeProgress', () => {
+    it.each([
+        ['normal', 250, 0.25],
+        ['normal', 1250, 0.25],
+        ['reverse', 250, 0.75],
+        ['reverse', 1250, 0.75],
+        ['alternate', 250, 0.25],
+        ['alternate', 1250, 0.75],
+        ['alternate-reverse', 250, 0.75],
+        ['alternate-reverse', 1250, 0.25],
+    ] as const)('goes %s at %ims', (direction, time, progress) => {
+        expect(getKeyframeProgress(time, 1000, Infinity, direction)).toBeCloseTo(progress, 6);
+    });
+
+    it('holds the end of the last iteration once done', () => {
+        expect(getKeyframeProgress(5000, 1000, 2, 'normal')).toBe(1);
+        expect(getKeyframeProgress(5000, 1000, 2, 'alternate')).toBe(0);
+        expect(getKeyframeProgress(5000, 1000, 1.5, 'normal')).toBeCloseTo(0.5, 6);
+        expect(getKeyframeProgress(5000, 1000, 1.5, 'alternate')).toBeCloseTo(0.5, 6);
+    });
+
+    it('stays at the start before the animation and without iterations', () => {
+        expect(getKeyframeProgress(-500, 1000, Infinity, 'normal')).toBe(0);
+        expect(getKeyframeProgress(500, 1000, 0, 'normal')).toBe(0);
+        expect(getKeyframeProgress(500, 0, Infinity, 'normal')).toBe(0);
+        expect(getKeyframeProgress(500, 1000, 0, 'reverse')).toBe(1);
+    });
+});
+
+describe('resolveKeyframes', () => {
+    it('adds stops until every keyframe has as many', () => {
+        const [from, to] = resolve([
+            'linear-gradient(red, blue)',
+            'linear-gradient(red, lime, blue)',
+        ]);
+        expect(from.layers[0].count).toBe(3);
+        expect(to.layers[0].count).toBe(3);
+        // The new stop sits where the gradient already was, so it looks the same
+        expect(from.layers[0].offsets).toEqual([0, 0.5, 1]);
+        expectColor(from.layers[0].colors[1], [0.5, 0, 0.5, 1]);
+    });
+
+    it('splits the widest segment at its hint', () => {
+        const [from] = resolve([
+            'linear-gradient(red 0%, blue 20%, 70%, white 100%)',
+            'linear-gradient(red, blue, lime, white)',
+        ]);
+        const { offsets, hints } = from.layers[0];
+        offsets.forEach((offset, i) => expect(offset).toBeCloseTo([0, 0.2, 0.7, 1][i], 6));
+        expect(hints).toEqual([0.5, 0.5, 0.5, 0.5]);
+    });
+
+    it('spreads missing offsets evenly', () => {
+        const keyframes = resolveKeyframes(
+            [
+                { gradient: 'linear-gradient(red, blue)' },
+                { gradient: 'linear-gradient(red, blue)' },
+                { gradient: 'linear-gradient(red, blue)', offset: 0.8 },
+                { gradient: 'linear-gradient(red, blue)' },
+            ],
+            100,
+            100,
+            true,
+            16,
+            viewport
+        );
+        expect(keyframes.map(({ offset }) => offset)).toEqual([0, 0.4, 0.8, 1]);
+    });
+
+    it('rejects keyframes that can not be mixed', () => {
+        expect(() => resolve(['linear-gradient(red, blue)', 'radial-gradient(red, blue)'])).toThrow(
+            GradientParseError
+        );
+        expect(() =>
+            resolve([
+                'linear-gradient(red, blue)',
+                'linear-gradient(red, blue), linear-gradient(red, blue)',
+            ])
+        ).toThrow(GradientParseError);
+        expect(() => resolve([])).toThrow(GradientParseError);
+    });
+});
+
+describe('sampleKeyframes', () => {
+    function midpoint(from: string, to: string, space: ColorInterpolation) {
+        const keyframes = resolve([
+            `linear-gradient(${from}, ${from})`,
+            `linear-gradient(${to}, ${to})`,
+        ]);
+        return sampleKeyframes(keyframes, 0.5, space, 100, 100, true)[0].colors[0];
+    }
+
+    it.each<[ColorInterpolation, number]>([
+        ['srgb', 0.5],
+        // Halfway in linear light is encoded back to sRGB
+        ['linear-srgb', 0.7354],
+        // Halfway in lightness is a quarter of the way in linear light
+        ['oklab', 0.3886],
+    ])('mixes black and white in %s', (space, gray) => {
+        expectColor(midpoint('black', 'white', space), [gray, gray, gray, 1]);
+    });
+
+    it.each<ColorInterpolation>(['srgb', 'linear-srgb', 'oklab'])(
+        'mixes with premultiplied alpha in %s',
+        (space) => {
+            expectColor(midpoint('red', 'transparent', space), [1, 0, 0, 0.5]);
+        }
+    );
+
+    it('holds the first and last keyframes outside of them', () => {
+        const keyframes = resolve(['linear-gradient(red, red)', 'linear-gradient(blue, blue)']);
+        const sample = (progress: number) =>
+            sampleKeyframes(keyframes, progress, 'srgb', 100, 100, true)[0].colors[0];
+        expectColor(sample(0), [1, 0, 0, 1]);
+        expectColor(sample(1), [0, 0, 1, 1]);
+    });
+
+    it('eases between keyframes', () => {
+        const keyframes = resolveKeyframes(
+            [
+                { gradient: 'linear-gradient(black, black)', easing: 'ease-in' },
+                { gradient: 'linear-gradient(white, white)' },
+            ],
+            100,
+            100,
+            true,
+            16,
+            viewport
+        );
+        const [gray] = sampleKeyframes(keyframes, 0.5, 'srgb', 100, 100, true)[0].colors[0];
+        expect(gray).toBeCloseTo(0.3153, 3);
+    });
+});
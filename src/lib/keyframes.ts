@@ -0,0 +1,350 @@
+import { GradientParseError } from './parser';
+
+import type { ParsedGradient, ViewportMetrics } from './utils';
+import { getLinearCorners, parseGradientLayers } from './utils';
+
+export type KeyframeEasing =
+    | 'linear'
+    | 'ease'
+    | 'ease-in'
+    | 'ease-out'
+    | 'ease-in-out'
+    | `cubic-bezier(${string})`
+    | ((progress: number) => number);
+
+export type KeyframeDirection = 'normal' | 'reverse' | 'alternate' | 'alternate-reverse';
+
+/** The color space stop colors are mixed in between keyframes. */
+export type ColorInterpolation = 'srgb' | 'linear-srgb' | 'oklab';
+
+export interface GradientKeyframe {
+    /** A CSS gradient string. */
+    gradient: string;
+    /** Where the keyframe sits from 0 to 1. Missing offsets are spread evenly, like `@keyframes` percentages. */
+    offset?: number;
+    /** Easing from this keyframe to the next one. */
+    easing?: KeyframeEasing;
+}
+
+/** A keyframe parsed for a canvas size, with as many stops in each layer as every other keyframe. */
+export interface ResolvedKeyframe {
+    offset: number;
+    easing: (progress: number) => number;
+    layers: ParsedGradient[];
+}
+
+type Color = [number, number, number, number];
+
+const EASING_KEYWORDS: Record<string, [number, number, number, number]> = {
+    ease: [0.25, 0.1, 0.25, 1],
+    'ease-in': [0.42, 0, 1, 1],
+    'ease-out': [0, 0, 0.58, 1],
+    'ease-in-out': [0.42, 0, 0.58, 1],
+};
+
+function cubicBezier(x1: number, y1: number, x2: number, y2: number) {
+    const sample = (a: number, b: number, t: number) =>
+        3 * a * (1 - t) ** 2 * t + 3 * b * (1 - t) * t ** 2 + t ** 3;
+    return (progress: number) => {
+        if (progress <= 0) return 0;
+        if (progress >= 1) return 1;
+        // x only ever grows with t when both x control points are between 0 and 1
+        let [low, high, t] = [0, 1, progress];
+        for (let i = 0; i < 32; i += 1) {
+            const x = sample(x1, x2, t);
+            if (Math.abs(x - progress) < 1e-6) break;
+            if (x < progress) low = t;
+            else high = t;
+            t = (low + high) / 2;
+        }
+        return sample(y1, y2, t);
+    };
+}
+
+export function parseEasing(easing: KeyframeEasing = 'linear'): (progress: number) => number {
+    if (typeof easing === 'function') return easing;
+    if (easing === 'linear') return (progress) => progress;
+
+    const points =
+        EASING_KEYWORDS[easing] ??
+        /^cubic-bezier\((.*)\)$/.exec(easing.trim())?.[1].split(',').map(Number);
+    if (
+        points?.length !== 4 ||
+        points.some((point) => !Number.isFinite(point)) ||
+        points[0] < 0 ||
+        points[0] > 1 ||
+        points[2] < 0 ||
+        points[2] > 1
+    ) {
+        throw new GradientParseError(easing, 'invalid easing', 0);
+    }
+    return cubicBezier(points[0], points[1], points[2], points[3]);
+}
+
+/**
+ * Progress through the keyframes from 0 to 1 at a time in milliseconds, following the same
+ * rules as `animation-iteration-count` and `animation-direction`. Holds the last frame once done.
+ */
+export function getKeyframeProgress(
+    time: number,
+    duration: number,
+    iterations: number,
+    direction: KeyframeDirection
+): number {
+    const count = Math.max(iterations, 0);
+    let [iteration, progress] = [0, 0];
+    if (duration > 0 && count > 0) {
+        const elapsed = Math.min(Math.max(time, 0), duration * count) / duration;
+        iteration = Math.floor(elapsed);
+        progress = elapsed - iteration;
+        if (elapsed >= count) {
+            // Finished, so stay at the end of the last iteration rather than the start of the next
+            iteration = Math.ceil(count) - 1;
+            progress = count - iteration;
+        }
+    }
+    const reversed =
+        direction === 'reverse' ||
+        (direction === 'alternate' && iteration % 2 === 1) ||
+        (direction === 'alternate-reverse' && iteration % 2 === 0);
+    return reversed ? 1 - progress : progress;
+}
+
+function toLinear(channel: number) {
+    return channel <= 0.04045 ? channel / 12.92 : ((channel + 0.055) / 1.055) ** 2.4;
+}
+
+function fromLinear(channel: number) {
+    return channel <= 0.0031308 ? channel * 12.92 : 1.055 * channel ** (1 / 2.4) - 0.055;
+}
+
+/** Converts an sRGB color to the interpolation space, keeping alpha as it is. */
+function toSpace([r, g, b, a]: Color, space: ColorInterpolation): Color {
+    if (space === 'srgb') return [r, g, b, a];
+    const [lr, lg, lb] = [toLinear(r), toLinear(g), toLinear(b)];
+    if (space === 'linear-srgb') return [lr, lg, lb, a];
+
+    const l = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb);
+    const m = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb);
+    const s = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb);
+    return [
+        0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+        1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+        0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+        a,
+    ];
+}
+
+function fromSpace([x, y, z, a]: Color, space: ColorInterpolation): Color {
+    const clamp = (channel: number) => Math.min(Math.max(channel, 0), 1);
+    if (space === 'srgb') return [clamp(x), clamp(y), clamp(z), a];
+    if (space === 'linear-srgb') {
+        return [clamp(fromLinear(x)), clamp(fromLinear(y)), clamp(fromLinear(z)), a];
+    }
+
+    const l = (x + 0.3963377774 * y + 0.2158037573 * z) ** 3;
+    const m = (x - 0.1055613458 * y - 0.0638541728 * z) ** 3;
+    const s = (x - 0.0894841775 * y - 1.291485548 * z) ** 3;
+    return [
+        clamp(fromLinear(4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s)),
+        clamp(fromLinear(-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s)),
+        clamp(fromLinear(-0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s)),
+        a,
+    ];
+}
+
+/** Mixes two colors with premultiplied alpha like CSS, so transparent stops don't drag in their color. */
+function mixColors(a: Color, b: Color, t: number, space: ColorInterpolation): Color {
+    const [from, to] = [toSpace(a, space), toSpace(b, space)];
+    const alpha = from[3] + (to[3] - from[3]) * t;
+    if (alpha <= 0) return [0, 0, 0, 0];
+    const mixed: Color = [0, 0, 0, alpha];
+    for (let c = 0; c < 3; c += 1) {
+        mixed[c] = (from[c] * from[3] + (to[c] * to[3] - from[c] * from[3]) * t) / alpha;
+    }
+    return fromSpace(mixed, space);
+}
+
+/** Turns from one angle to another the short way round. */
+function mixAngles(a: number, b: number, t: number) {
+    const turn = b - a - Math.PI * 2 * Math.floor((b - a + Math.PI) / (Math.PI * 2));
+    return a + turn * t;
+}
+
+/**
+ * Adds stops to a gradient without changing how it looks, until it has `count` of them.
+ * The widest segment is split at its hint, where the colors on either side are mixed evenly.
+ */
+function splitStops(layer: ParsedGradient, count: number): ParsedGradient {
+    const colors = [...layer.colors];
+    const offsets = [...layer.offsets];
+    const hints = [...layer.hints];
+    while (colors.length < count) {
+        if (colors.length === 1) {
+            colors.push(colors[0]);
+            offsets.push(offsets[0]);
+            hints.push(0.5);
+            continue;
+        }
+        let widest = 1;
+        for (let i = 2; i < colors.length; i += 1) {
+            if (offsets[i] - offsets[i - 1] > offsets[widest] - offsets[widest - 1]) widest = i;
+        }
+        const hint = Math.min(Math.max(hints[widest], 0), 1);
+        const offset = offsets[widest - 1] + (offsets[widest] - offsets[widest - 1]) * hint;
+        colors.splice(widest, 0, mixColors(colors[widest - 1], colors[widest], 0.5, 'srgb'));
+        offsets.splice(widest, 0, offset);
+        hints.splice(widest, 0, 0.5);
+        hints[widest + 1] = 0.5;
+    }
+    return { ...layer, count, colors, offsets, hints };
+}
+
+/**
+ * Parses keyframes for a canvas size and evens out their stops, so that every keyframe can be
+ * mixed with any other one. Keyframes need the same number of layers and kinds of gradient.
+ */
+export function resolveKeyframes(
+    keyframes: GradientKeyframe[],
+    width: number,
+    height: number,
+    preserveAspect: boolean,
+    fontSize: number,
+    viewport?: ViewportMetrics
+): ResolvedKeyframe[] {
+    if (keyframes.length < 1) {
+        throw new GradientParseError('', 'keyframes need at least one gradient', 0);
+    }
+    const layers = keyframes.map(({ gradient }) =>
+        parseGradientLayers(gradient, width, height, preserveAspect, fontSize, viewport)
+    );
+
+    const first = layers[0];
+    layers.forEach((keyframe, k) => {
+        const { gradient } = keyframes[k];
+        if (keyframe.length !== first.length) {
+            const reason = 'every keyframe needs the same number of gradient layers';
+            throw new GradientParseError(gradient, reason, 0);
+        }
+        keyframe.forEach((layer, i) => {
+            if (layer.shape !== first[i].shape) {
+                const reason = `layer ${i} is a ${first[i].shape} gradient in one keyframe and a ${layer.shape} one in another`;
+                throw new GradientParseError(gradient, reason, 0);
+            }
+        });
+    });
+    first.forEach((_, i) => {
+        const count = Math.max(...layers.map((keyframe) => keyframe[i].count));
+        layers.forEach((keyframe) => (keyframe[i] = splitStops(keyframe[i], count)));
+    });
+
+    // Missing offsets are spread evenly between the ones around them, like stop positions
+    const offsets: (number | undefined)[] = keyframes.map(({ offset }) => offset);
+    offsets[0] ??= 0;
+    offsets[offsets.length - 1] ??= 1;
+    let last = 0;
+    for (let i = 0; i < offsets.length; i += 1) {
+        const offset = offsets[i];
+        if (offset === undefined) continue;
+        const start = offsets[last]!;
+        for (let j = last + 1; j < i; j += 1) {
+            offsets[j] = start + ((offset - start) * (j - last)) / (i - last);
+        }
+        offsets[i] = Math.max(offset, start);
+        last = i;
+    }
+
+    return keyframes.map(({ easing }, i) => ({
+        offset: offsets[i]!,
+        easing: parseEasing(easing),
+        layers: layers[i],
+    }));
+}
+
+function mixLayers(
+    a: ParsedGradient,
+    b: ParsedGradient,
+    t: number,
+    space: ColorInterpolation,
+    width: number,
+    height: number,
+    preserveAspect: boolean
+): ParsedGradient {
+    const mix = (from: number, to: number) => from + (to - from) * t;
+    const angle = mixAngles(a.angle, b.angle, t);
+    return {
+        shape: a.shape,
+        repeating: t < 0.5 ? a.repeating : b.repeating,
+        count: a.count,
+        colors: a.colors.map((color, i) => mixColors(color, b.colors[i], t, space)),
+        offsets: a.offsets.map((offset, i) => mix(offset, b.offsets[i])),
+        hints: a.hints.map((hint, i) => mix(hint, b.hints[i])),
+        corners:
+            a.shape === 'linear'
+                ? getLinearCorners(angle, width, height, preserveAspect)
+                : [0, 0, 0, 0],
+        center: [mix(a.center[0], b.center[0]), mix(a.center[1], b.center[1])],
+        radius: [mix(a.radius[0], b.radius[0]), mix(a.radius[1], b.radius[1])],
+        angle,
+    };
+}
+
+/** The gradient layers at a point from 0 to 1 through the keyframes. */
+export function sampleKeyframes(
+    keyframes: ResolvedKeyframe[],
+    progress: number,
+    space: ColorInterpolation,
+    width: number,
+    height: number,
+    preserveAspect: boolean
+): ParsedGradient[] {
+    const next = keyframes.findIndex(({ offset }) => progress < offset);
+    if (next === 0) return keyframes[0].layers;
+    if (next < 0) return keyframes[keyframes.length - 1].layers;
+
+    const [from, to] = [keyframes[next - 1], keyframes[next]];
+    const span = to.offset - from.offset;
+    const t = from.easing(span > 0 ? (progress - from.offset) / span : 1);
+    return from.layers.map((layer, i) =>
+        mixLayers(layer, to.layers[i], t, space, width, height, preserveAspect)
+    );
+}
+
+/**
+ * Mixes any two gradients for transitions. Layers are matched up from the bottom one, layers that
+ * only one side has fade in or out, and layers that change between kinds of gradient switch over halfway.
+ */
+export function mixGradients(
+    from: ParsedGradient[],
+    to: ParsedGradient[],
+    t: number,
+    space: ColorInterpolation,
+    width: number,
+    height: number,
+    preserveAspect: boolean
+): ParsedGradient[] {
+    const transparent = (layer: ParsedGradient): ParsedGradient => ({
+        ...layer,
+        colors: layer.colors.map(([r, g, b]) => [r, g, b, 0]),
+    });
+    const length = Math.max(from.length, to.length);
+    return Array.from({ length }, (_, i) => {
+        const [fromLayer, toLayer] = [
+            from[i - length + from.length] as ParsedGradient | undefined,
+            to[i - length + to.length] as ParsedGradient | undefined,
+        ];
+        const a = fromLayer ?? transparent(toLayer!);
+        const b = toLayer ?? transparent(fromLayer!);
+        if (a.shape !== b.shape) return t < 0.5 ? a : b;
+        const count = Math.max(a.count, b.count);
+        return mixLayers(
+            splitStops(a, count),
+            splitStops(b, count),
+            t,
+            space,
+            width,
+            height,
+            preserveAspect
+        );
+    });
+}
@@ -0,0 +1,736 @@
+import type { GpuTimer, GradientRenderer } from './renderer';
+import {
+    SHARED_NOISE_TEXTURE_LIFETIME,
+    createGpuTimer,
+    createGradientRenderer,
+    getContext2D,
+    getWebGLContext,
+    renderGradient,
+} from './renderer';
+
+import { renderLayersToImageData } from './reference';
+
+import type { GrainyGradientHandle, GrainyGradientOptions } from './core';
+
+import type {
+    ColorInterpolation,
+    KeyframeDirection,
+    KeyframeEasing,
+    ResolvedKeyframe,
+} from './keyframes';
+import {
+    getKeyframeProgress,
+    mixGradients,
+    parseEasing,
+    resolveKeyframes,
+    sampleKeyframes,
+} from './keyframes';
+
+import { GradientParseError } from './parser';
+
+import type {
+    CompiledGradient,
+    FallbackMode,
+    GradientBlendMode,
+    GrainMode,
+    NoiseSeed,
+    NoiseType,
+    ParsedGradient,
+    ReducedMotion,
+} from './utils';
+import { compileGradient } from './utils';
+
+/** Drawing on the CPU is slow, so animated `canvas2d` fallbacks draw at most one frame this many milliseconds. */
+const FALLBACK_FRAME_INTERVAL = 1000 / 12;
+/** Animated `canvas2d` fallbacks wait this many times as long as the last frame took to draw before drawing the next. */
+const FALLBACK_IDLE_FACTOR = 4;
+/** `canvas2d` fallbacks draw at most this many pixels and let the canvas scale them up. */
+const FALLBACK_MAX_PIXELS = 480 * 270;
+
+/** `adaptiveResolution` never goes below this fraction of the resolution it would otherwise use. */
+const MIN_ADAPTIVE_SCALE = 0.25;
+/** Milliseconds to wait after changing the adaptive resolution before measuring whether to change it again. */
+const ADAPTIVE_SCALE_COOLDOWN = 1000;
+
+const DEFAULT_OPTIONS = {
+    noiseTextureSize: 256,
+    noiseSeed: 0xcafe as NoiseSeed | NoiseSeed[],
+    noiseType: 'white' as NoiseType,
+    grainIntensity: 1,
+    grainMode: 'dither' as GrainMode,
+    blendMode: 'normal' as GradientBlendMode | GradientBlendMode[],
+    duration: 1000,
+    iterations: Infinity,
+    direction: 'normal' as KeyframeDirection,
+    colorInterpolation: 'oklab' as ColorInterpolation,
+    transitionDuration: 0,
+    transitionEasing: 'ease' as KeyframeEasing,
+    shimmerSpeed: 0.0,
+    preserveAspect: true,
+    paused: false,
+    maxFps: Infinity,
+    reducedMotion: 'respect' as ReducedMotion,
+    resolutionScale: 1 as number | 'auto',
+    maxPixels: Infinity,
+    adaptiveResolution: false,
+    targetFrameTime: 1000 / 60,
+    fallbackMode: 'css' as FallbackMode,
+    forceWebGL1: true,
+    initialTime: 0,
+};
+
+type Settings = GrainyGradientOptions & typeof DEFAULT_OPTIONS;
+
+/** Options with the defaults filled in wherever an option is left out or `undefined`. */
+function withDefaults(options: GrainyGradientOptions): Settings {
+    const defined = Object.entries(options).filter(([, value]) => value !== undefined);
+    return { ...DEFAULT_OPTIONS, ...(Object.fromEntries(defined) as GrainyGradientOptions) };
+}
+
+/** Animation time in milliseconds, which only moves on while it is running. */
+interface Clock {
+    time: number;
+    rate: number;
+    /** `performance.now()` when the clock last started or changed, `null` while it is stopped. */
+    startedAt: number | null;
+}
+
+function getClockTime(clock: Clock, now: number) {
+    return clock.startedAt === null
+        ? clock.time
+        : clock.time + (now - clock.startedAt) * clock.rate;
+}
+
+/** Brings the clock up to date and restarts it from `now`, or stops it. */
+function setClockRunning(clock: Clock, running: boolean, now: number) {
+    clock.time = getClockTime(clock, now);
+    clock.startedAt = running ? now : null;
+}
+
+// Not every worker has requestAnimationFrame, so they draw on a timer instead
+const requestFrame = (callback: () => void): number =>
+    typeof requestAnimationFrame === 'function'
+        ? requestAnimationFrame(callback)
+        : (setTimeout(callback, 1000 / 60) as unknown as number);
+const cancelFrame = (frame: number) =>
+    typeof cancelAnimationFrame === 'function' ? cancelAnimationFrame(frame) : clearTimeout(frame);
+
+/** Options that only change what happens after a draw, so changing them doesn't draw again. */
+export const CALLBACK_OPTIONS = new Set([
+    'onReady',
+    'onContextError',
+    'onContextLost',
+    'onContextRestored',
+    'onParseError',
+]);
+/** Options that the context is created with, so changing them creates it again. */
+const CONTEXT_OPTIONS = new Set([
+    'sharedRenderer',
+    'contextAttributes',
+    'forceWebGL1',
+    'fallbackMode',
+]);
+
+/** Context attributes are often written inline, so they are compared by value. */
+function isSameOption(key: keyof GrainyGradientOptions, a: unknown, b: unknown) {
+    if (a === b) return true;
+    return key === 'contextAttributes' && JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** What a render loop needs to know about the page its canvas is on, measured on the main thread. */
+export interface RenderSize {
+    /** Size of the canvas in CSS pixels. */
+    width: number;
+    height: number;
+    devicePixelRatio: number;
+    /** Font size of the canvas in pixels, for `em` lengths. */
+    fontSize: number;
+    /** Font size of the root element in pixels, for `rem` lengths. */
+    rootFontSize: number;
+    /** Size of the viewport in CSS pixels, for `vw`, `vh`, `vmin` and `vmax` lengths. */
+    viewportWidth: number;
+    viewportHeight: number;
+}
+
+/** Draws a gradient on a canvas and keeps it animated. Runs on the main thread or in a worker. */
+export interface RenderLoop
+    extends Pick<GrainyGradientHandle, 'play' | 'pause' | 'seek' | 'setPlaybackRate'> {
+    update: (options: Partial<GrainyGradientOptions>) => void;
+    setSize: (size: RenderSize) => void;
+    /** Whether anyone can see the canvas, animation is suspended while they can't. */
+    setVisible: (visible: boolean) => void;
+    setPrefersReducedMotion: (reduced: boolean) => void;
+    /** Draws the current frame straight away, and reports whether it worked. */
+    draw: () => boolean;
+    destroy: () => void;
+}
+
+export function createRenderLoop(
+    canvas: HTMLCanvasElement | OffscreenCanvas,
+    initialOptions: GrainyGradientOptions,
+    initialSize: RenderSize
+): RenderLoop {
+    let options: GrainyGradientOptions = { ...initialOptions };
+    let settings = withDefaults(options);
+    let size = initialSize;
+    let destroyed = false;
+
+    let renderer: GradientRenderer | null = null;
+    // Set when drawing with a shared renderer, whose output is copied onto this canvas
+    let copyContext: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null = null;
+    // Set when WebGL failed and the grain is drawn on the CPU instead
+    let fallbackContext: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null = null;
+    let disconnectContext: (() => void) | null = null;
+
+    // The pending animation frame, and whether the loop keeps asking for new ones
+    let frame: number | null = null;
+    let animating = false;
+    let lastFrame = -Infinity;
+    let lastFallbackFrame = -Infinity;
+    // Grows with the time a CPU frame takes, so the main thread stays mostly free
+    let fallbackInterval = FALLBACK_FRAME_INTERVAL;
+    let didFireReady = false;
+    // Set when the context comes back, until the next successful draw
+    let restoring = false;
+
+    const clock: Clock = { time: settings.initialTime, rate: 1, startedAt: null };
+    // Set by pause() and cleared by play(), separately from the paused option
+    let playbackPaused = false;
+
+    // Fraction of the resolution to draw at, lowered by adaptiveResolution when frames are slow
+    let adaptiveScale = 1;
+    const frameTiming = { last: -Infinity, average: 0, changedAt: -Infinity };
+    // Made again for each renderer, since a restored or shared context needs queries of its own
+    let gpuTimer: { renderer: GradientRenderer; timer: GpuTimer | null } | null = null;
+    const getGpuTimer = (current: GradientRenderer) => {
+        if (gpuTimer?.renderer !== current) {
+            gpuTimer?.timer?.dispose();
+            gpuTimer = { renderer: current, timer: createGpuTimer(current.gl) };
+        }
+        return gpuTimer.timer;
+    };
+
+    // Keyframes parsed for the size they were last drawn at
+    let resolvedKeyframes: { key: unknown[]; keyframes: ResolvedKeyframe[] } | null = null;
+    let attemptedKeyframesKey: unknown[] | null = null;
+    // The layers drawn last, which a transition starts from
+    let lastLayers: ParsedGradient[] | null = null;
+    // The last gradient that parsed, drawn instead of one that doesn't
+    let lastValidGradient: CompiledGradient | null = null;
+    // What failed to parse last, so that each bad gradient is only reported once
+    let reportedSource: unknown = null;
+    let transition: {
+        from: ParsedGradient[];
+        start: number;
+        easing: (progress: number) => number;
+    } | null = null;
+
+    // Animation is suspended while nobody can see it, and frozen when the user asks for less motion
+    let visible = true;
+    let prefersReducedMotion = false;
+
+    const reduceMotion = () => settings.reducedMotion === 'respect' && prefersReducedMotion;
+
+    const isPlaying = () => {
+        const { gradient, shimmerSpeed, keyframes, paused } = settings;
+        const effectiveShimmer = Number.isFinite(shimmerSpeed) ? shimmerSpeed : 0.0;
+        return (
+            (typeof gradient === 'function' ||
+                effectiveShimmer > 0 ||
+                (keyframes?.length ?? 0) > 1) &&
+            !paused &&
+            !playbackPaused &&
+            !reduceMotion()
+        );
+    };
+
+    // Anything a gradient function or the keyframes throw is reported like a gradient that doesn't
+    // parse, since an error thrown in the animation frame would end the animation
+    const reportParseError = (err: unknown, source: unknown, input = '') => {
+        const error =
+            err instanceof GradientParseError
+                ? err
+                : new GradientParseError(
+                      input,
+                      err instanceof Error ? err.message : String(err),
+                      0
+                  );
+        if (source !== reportedSource) settings.onParseError?.(error);
+        reportedSource = source;
+    };
+
+    // An invalid easing is ignored like an invalid CSS declaration, so the default one is used
+    const parseTransitionEasing = () => {
+        try {
+            return parseEasing(settings.transitionEasing);
+        } catch (err) {
+            reportParseError(err, settings.transitionEasing);
+            return parseEasing(DEFAULT_OPTIONS.transitionEasing);
+        }
+    };
+
+    // Returns null when nothing valid has been parsed yet, so the fallback keeps showing
+    const getLayers = (now: number, time: number): ParsedGradient[] | null => {
+        const { gradient, keyframes, preserveAspect, colorInterpolation } = settings;
+        const { fontSize } = size;
+        // Measured by whoever set the size, since a worker has no window to measure
+        const viewport = {
+            rootFontSize: size.rootFontSize,
+            width: size.viewportWidth,
+            height: size.viewportHeight,
+        };
+        const [cw, ch] = [canvas.width, canvas.height];
+
+        let layers: ParsedGradient[];
+        if (!keyframes?.length) {
+            let gradientString: unknown;
+            try {
+                gradientString =
+                    typeof gradient === 'string'
+                        ? gradient
+                        : gradient(time, { width: cw, height: ch });
+                if (typeof gradientString !== 'string') {
+                    throw new GradientParseError(
+                        String(gradientString),
+                        'Expected a gradient string',
+                        0
+                    );
+                }
+                lastValidGradient = compileGradient(gradientString);
+                reportedSource = null;
+            } catch (err) {
+                // A function that keeps throwing is only reported once
+                reportParseError(err, gradientString ?? gradient, 'gradient function');
+            }
+            if (!lastValidGradient) return null;
+            layers = lastValidGradient.resolve(cw, ch, preserveAspect, fontSize, viewport);
+        } else {
+            const key = [
+                keyframes,
+                cw,
+                ch,
+                preserveAspect,
+                fontSize,
+                viewport.rootFontSize,
+                viewport.width,
+                viewport.height,
+            ];
+            const isKey = (other?: unknown[] | null) =>
+                !!other?.every((value, i) => value === key[i]);
+            // Keyframes that failed aren't parsed again every frame, only once one of these changes
+            if (!isKey(resolvedKeyframes?.key) && !isKey(attemptedKeyframesKey)) {
+                attemptedKeyframesKey = key;
+                try {
+                    resolvedKeyframes = {
+                        key,
+                        keyframes: resolveKeyframes(
+                            keyframes,
+                            cw,
+                            ch,
+                            preserveAspect,
+                            fontSize,
+                            viewport
+                        ),
+                    };
+                    reportedSource = null;
+                } catch (err) {
+                    // The keyframes that were resolved before keep being drawn
+                    reportParseError(err, keyframes, 'keyframes');
+                }
+            }
+            if (!resolvedKeyframes) return null;
+            layers = sampleKeyframes(
+                resolvedKeyframes.keyframes,
+                getKeyframeProgress(
+                    time,
+                    settings.duration,
+                    settings.iterations,
+                    settings.direction
+                ),
+                colorInterpolation,
+                cw,
+                ch,
+                preserveAspect
+            );
+        }
+
+        if (transition) {
+            const progress = (now - transition.start) / settings.transitionDuration;
+            if (progress < 1) {
+                layers = mixGradients(
+                    transition.from,
+                    layers,
+                    transition.easing(Math.max(progress, 0)),
+                    colorInterpolation,
+                    cw,
+                    ch,
+                    preserveAspect
+                );
+            } else {
+                transition = null;
+            }
+        }
+        lastLayers = layers;
+        return layers;
+    };
+
+    // Draws one frame and reports whether it worked, without scheduling the next one
+    const draw = (): boolean => {
+        if (!renderer && !fallbackContext) return false;
+        const now = performance.now();
+        const [cw, ch] = [canvas.width, canvas.height];
+        const time = getClockTime(clock, now);
+        const { noiseTextureSize, shimmerSpeed, grainIntensity, blendMode } = settings;
+        const effectiveNoiseSize = Number.isFinite(noiseTextureSize) ? noiseTextureSize : 256;
+        const effectiveShimmer = Number.isFinite(shimmerSpeed) ? shimmerSpeed : 0.0;
+
+        if (fallbackContext) {
+            if (animating && now - lastFallbackFrame < fallbackInterval) return true;
+            lastFallbackFrame = now;
+            const layers = getLayers(now, time);
+            if (!layers) return false;
+            try {
+                const { data } = renderLayersToImageData(layers, cw, ch, {
+                    noiseTextureSize: effectiveNoiseSize,
+                    noiseSeed: settings.noiseSeed,
+                    noiseType: settings.noiseType,
+                    grainIntensity,
+                    grainMode: settings.grainMode,
+                    blendMode,
+                    shimmerSpeed: effectiveShimmer,
+                    time,
+                });
+                fallbackContext.putImageData(new ImageData(data, cw, ch), 0, 0);
+                fallbackInterval = Math.max(
+                    FALLBACK_FRAME_INTERVAL,
+                    (performance.now() - now) * FALLBACK_IDLE_FACTOR
+                );
+            } catch (err) {
+                if (!(err instanceof RangeError)) throw err;
+                settings.onContextError?.(err);
+                return false;
+            }
+            return true;
+        }
+
+        if (!renderer) return false;
+        const layers = getLayers(now, time);
+        if (!layers) return false;
+        const source = renderer.gl.canvas;
+        if (copyContext) {
+            // The shared canvas grows to fit the largest gradient, each one draws into its bottom left corner
+            if (source.width < cw) source.width = cw;
+            if (source.height < ch) source.height = ch;
+        }
+        const timer = settings.adaptiveResolution ? getGpuTimer(renderer) : null;
+        timer?.begin();
+        try {
+            renderGradient(
+                renderer,
+                cw,
+                ch,
+                layers,
+                Math.max(1, effectiveNoiseSize),
+                effectiveShimmer * time,
+                settings.preserveAspect,
+                settings.noiseSeed,
+                settings.noiseType,
+                Number.isFinite(grainIntensity) ? Math.min(Math.max(grainIntensity, 0), 1) : 1,
+                settings.grainMode,
+                Array.isArray(blendMode) ? blendMode : [blendMode],
+                size.fontSize
+            );
+        } catch (err) {
+            // Gradients the GPU can't draw are reported rather than thrown
+            if (!(err instanceof RangeError)) throw err;
+            settings.onContextError?.(err);
+            return false;
+        } finally {
+            timer?.end();
+        }
+        if (copyContext) {
+            copyContext.clearRect(0, 0, cw, ch);
+            copyContext.drawImage(source, 0, source.height - ch, cw, ch, 0, 0, cw, ch);
+            // Other gradients may still need the noise this one stopped using
+            renderer.releaseNoiseTextures(now - SHARED_NOISE_TEXTURE_LIFETIME);
+        } else {
+            // Drop noise textures for seeds and sizes that are no longer drawn
+            renderer.releaseNoiseTextures(now);
+        }
+        return true;
+    };
+
+    const adaptResolution = (now: number, interval: number) => {
+        const frameTime = now - frameTiming.last;
+        frameTiming.last = now;
+        // The time the GPU spent drawing where it can be measured. Otherwise the time between frames,
+        // which includes waiting for the GPU, but also any slowing down of frames to save power
+        const timer = renderer && gpuTimer?.renderer === renderer ? gpuTimer.timer : null;
+        // Long gaps are the loop starting again or the page being hidden, not slow frames
+        const samples = timer ? timer.collect() : frameTime < 250 ? [frameTime] : [];
+        for (const sample of samples) {
+            frameTiming.average = frameTiming.average
+                ? frameTiming.average * 0.9 + sample * 0.1
+                : sample;
+        }
+        // Frames spaced out by maxFps aren't slow
+        const target = timer
+            ? settings.targetFrameTime
+            : Math.max(settings.targetFrameTime, interval);
+        if (!frameTiming.average || now - frameTiming.changedAt <= ADAPTIVE_SCALE_COOLDOWN) return;
+
+        const previous = adaptiveScale;
+        if (frameTiming.average > target * 1.5) {
+            adaptiveScale = Math.max(MIN_ADAPTIVE_SCALE, adaptiveScale * 0.8);
+        } else if (frameTiming.average < target * 1.1) {
+            adaptiveScale = Math.min(1, adaptiveScale / 0.8);
+        }
+        if (adaptiveScale !== previous) {
+            frameTiming.changedAt = now;
+            frameTiming.average = 0;
+            resize();
+        }
+    };
+
+    const render = () => {
+        frame = null;
+        const now = performance.now();
+        const interval = settings.maxFps > 0 ? 1000 / settings.maxFps : 0;
+        if (animating && now - lastFrame < interval) {
+            frame = requestFrame(render);
+            return;
+        }
+        // Line frames up with the interval, so display refresh jitter doesn't drop every other one
+        const elapsed = now - lastFrame;
+        lastFrame = elapsed < interval * 2 ? now - (elapsed % interval) : now;
+        if (!draw()) {
+            // A gradient function may return one that parses on a later frame
+            const waiting = typeof settings.gradient === 'function' && !lastValidGradient;
+            if (animating && waiting && !settings.keyframes?.length) frame = requestFrame(render);
+            return;
+        }
+
+        if (animating) {
+            frame = requestFrame(render);
+            // The CPU fallback skips most frames and keeps to its own resolution and pace
+            if (settings.adaptiveResolution && !fallbackContext) adaptResolution(now, interval);
+        }
+        if (!didFireReady) {
+            didFireReady = true;
+            settings.onReady?.();
+        }
+        if (restoring) {
+            restoring = false;
+            settings.onContextRestored?.();
+        }
+        // The loop only ran for a transition that is now over
+        if (animating && !isPlaying() && !transition) refresh();
+    };
+
+    /** Starts or stops the animation loop to match the options, and draws the current frame. */
+    const refresh = () => {
+        if (frame !== null) cancelFrame(frame);
+        frame = null;
+        setClockRunning(clock, false, performance.now());
+        if (destroyed || (!renderer && !fallbackContext)) return;
+
+        const playing = isPlaying();
+        animating = (playing || !!transition) && visible;
+        // Transitions run even while paused, but only playing moves the clock on
+        if (animating && playing) setClockRunning(clock, true, performance.now());
+        // Wait for the next frame, so that layout has settled
+        frame = requestFrame(render);
+    };
+
+    /** Sets the size of the drawing buffer from the size of the canvas, and reports whether it changed. */
+    const resize = (): boolean => {
+        const { width, height } = size;
+        const { resolutionScale, adaptiveResolution } = settings;
+        const maxPixels = fallbackContext
+            ? Math.min(settings.maxPixels, FALLBACK_MAX_PIXELS)
+            : settings.maxPixels;
+
+        let scale =
+            (resolutionScale === 'auto' ? size.devicePixelRatio : Math.max(0.1, resolutionScale)) *
+            (adaptiveResolution ? adaptiveScale : 1);
+        if (width * height * scale * scale > maxPixels) {
+            scale = Math.sqrt(Math.max(maxPixels, 1) / (width * height));
+        }
+        const bufferWidth = Math.max(1, Math.round(width * scale));
+        const bufferHeight = Math.max(1, Math.round(height * scale));
+        if (canvas.width === bufferWidth && canvas.height === bufferHeight) return false;
+
+        // Resizing clears the canvas, so draw again straight away
+        canvas.width = bufferWidth;
+        canvas.height = bufferHeight;
+        refresh();
+        return true;
+    };
+
+    const connect = () => {
+        // Draw on the CPU instead if asked to, and tell onContextError which fallback is showing
+        const fail = (error: Error) => {
+            const { fallbackMode } = settings;
+            fallbackContext = fallbackMode === 'canvas2d' ? getContext2D(canvas) : null;
+            settings.onContextError?.(
+                error,
+                fallbackContext ? 'canvas2d' : fallbackMode === 'none' ? 'none' : 'css'
+            );
+            disconnectContext = () => (fallbackContext = null);
+        };
+
+        const { sharedRenderer } = settings;
+        if (sharedRenderer) {
+            const shared = sharedRenderer.get();
+            if (!shared) return fail(new Error('WebGL context not available'));
+            const context = getContext2D(canvas);
+            if (!context) return fail(new Error('2D context not available'));
+            copyContext = context;
+            renderer = shared;
+
+            const unsubscribe = sharedRenderer.subscribe((lost) => {
+                if (lost) {
+                    // Clear the last copied frame so the fallback shows through
+                    context.clearRect(0, 0, canvas.width, canvas.height);
+                    renderer = null;
+                    refresh();
+                    settings.onContextLost?.();
+                    return;
+                }
+                restoring = true;
+                renderer = sharedRenderer.get();
+                refresh();
+            });
+            disconnectContext = () => {
+                unsubscribe();
+                copyContext = null;
+                renderer = null;
+            };
+            return;
+        }
+
+        let context: WebGLRenderingContext | null = null;
+        try {
+            context = getWebGLContext(canvas, settings.contextAttributes, settings.forceWebGL1);
+        } catch (err) {
+            return fail(err as Error);
+        }
+        if (!context) return fail(new Error('WebGL context not available'));
+
+        const gl = context;
+        renderer = createGradientRenderer(gl);
+
+        // Everything made with a lost context is gone, so it is all created again on restore
+        const handleContextLost = (event: Event) => {
+            // Without this the browser never restores the context
+            event.preventDefault();
+            renderer = null;
+            refresh();
+            settings.onContextLost?.();
+        };
+        const handleContextRestored = () => {
+            renderer = createGradientRenderer(gl);
+            restoring = true;
+            refresh();
+        };
+        canvas.addEventListener('webglcontextlost', handleContextLost);
+        canvas.addEventListener('webglcontextrestored', handleContextRestored);
+
+        disconnectContext = () => {
+            canvas.removeEventListener('webglcontextlost', handleContextLost);
+            canvas.removeEventListener('webglcontextrestored', handleContextRestored);
+            renderer?.dispose();
+            renderer = null;
+        };
+    };
+
+    connect();
+    if (!resize()) refresh();
+
+    return {
+        update: (next) => {
+            if (destroyed) return;
+            const changed = (Object.keys(next) as (keyof GrainyGradientOptions)[]).filter(
+                (key) => !isSameOption(key, next[key], options[key])
+            );
+            if (changed.length < 1) return;
+            const previous = settings;
+            options = { ...options, ...next };
+            settings = withDefaults(options);
+            if (changed.every((key) => CALLBACK_OPTIONS.has(key))) return;
+
+            if (settings.initialTime !== previous.initialTime) {
+                clock.time = settings.initialTime;
+                if (clock.startedAt !== null) clock.startedAt = performance.now();
+            }
+            // Only a new gradient starts a transition
+            if (changed.includes('gradient')) {
+                transition =
+                    typeof settings.gradient === 'string' &&
+                    lastLayers &&
+                    settings.transitionDuration > 0 &&
+                    !reduceMotion()
+                        ? {
+                              from: lastLayers,
+                              start: performance.now(),
+                              easing: parseTransitionEasing(),
+                          }
+                        : null;
+            }
+            if (changed.some((key) => CONTEXT_OPTIONS.has(key))) {
+                disconnectContext?.();
+                disconnectContext = null;
+                connect();
+            }
+            if (!resize()) refresh();
+        },
+        setSize: (next) => {
+            if (destroyed) return;
+            const changed = (Object.keys(next) as (keyof RenderSize)[]).some(
+                (key) => next[key] !== size[key]
+            );
+            size = next;
+            if (changed && !resize()) refresh();
+        },
+        setVisible: (next) => {
+            if (destroyed || next === visible) return;
+            visible = next;
+            refresh();
+        },
+        setPrefersReducedMotion: (reduced) => {
+            if (destroyed || reduced === prefersReducedMotion) return;
+            prefersReducedMotion = reduced;
+            refresh();
+        },
+        draw,
+        play: () => {
+            playbackPaused = false;
+            refresh();
+        },
+        pause: () => {
+            playbackPaused = true;
+            refresh();
+        },
+        seek: (time) => {
+            const running = clock.startedAt !== null;
+            clock.time = time;
+            if (running) clock.startedAt = performance.now();
+            // A running animation picks the new time up on its next frame
+            else draw();
+        },
+        setPlaybackRate: (rate) => {
+            setClockRunning(clock, clock.startedAt !== null, performance.now());
+            clock.rate = rate;
+        },
+        destroy: () => {
+            if (destroyed) return;
+            destroyed = true;
+            if (frame !== null) cancelFrame(frame);
+            frame = null;
+            disconnectContext?.();
+            disconnectContext = null;
+            gpuTimer?.timer?.dispose();
+            gpuTimer = null;
+        },
+    };
+}
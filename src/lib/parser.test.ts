@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+
+import { GradientParseError, parseGradientList } from './parser';
+
+function parseError(input: string) {
+    try {
+        parseGradientList(input);
+    } catch (err) {
+        if (err instanceof GradientParseError) return err;
+        throw err;
+    }
+    throw Error(`expected ${input} not to parse`);
+}
+
+describe('parseGradientList', () => {
+    it('parses one node per layer', () => {
+        const layers = parseGradientList(
+            'linear-gradient(red, blue), repeating-radial-gradient(circle, red, blue 10px)'
+        );
+        expect(layers.map((layer) => layer.type)).toEqual([
+            'linear-gradient',
+            'repeating-radial-gradient',
+        ]);
+    });
+
+    it('reads a color stop with two positions as two stops', () => {
+        const [layer] = parseGradientList('linear-gradient(red 10% 20%, blue)');
+        expect(layer.colorStops).toEqual([
+            { type: 'color-stop', color: 'red', length: { type: '%', value: '10' } },
+            { type: 'color-stop', color: 'red', length: { type: '%', value: '20' } },
+            { type: 'color-stop', color: 'blue' },
+        ]);
+    });
+
+    it('reads transition hints between color stops', () => {
+        const [layer] = parseGradientList('linear-gradient(red, 30%, blue)');
+        expect(layer.colorStops[1]).toEqual({ type: 'hint', length: { type: '%', value: '30' } });
+    });
+
+    it('reads calc() positions with the usual precedence', () => {
+        const [layer] = parseGradientList('linear-gradient(red calc(10px + 2 * 5%), blue)');
+        expect(layer.colorStops[0]).toEqual({
+            type: 'color-stop',
+            color: 'red',
+            length: {
+                type: 'calc',
+                value: {
+                    type: 'operation',
+                    operator: '+',
+                    left: { type: 'px', value: '10' },
+                    right: {
+                        type: 'operation',
+                        operator: '*',
+                        left: { type: 'number', value: '2' },
+                        right: { type: '%', value: '5' },
+                    },
+                },
+            },
+        });
+    });
+
+    it.each(['rem', 'vw', 'vh', 'vmin', 'vmax'])('reads %s lengths', (unit) => {
+        const [layer] = parseGradientList(`linear-gradient(red 2${unit}, blue)`);
+        expect(layer.colorStops[0]).toEqual({
+            type: 'color-stop',
+            color: 'red',
+            length: { type: unit, value: '2' },
+        });
+    });
+
+    it('needs at least two color stops', () => {
+        expect(parseError('linear-gradient(red)').reason).toBe(
+            'gradient needs at least two color stops'
+        );
+        // A hint isn't a color stop
+        expect(parseError('linear-gradient(red, 50%)').reason).toBe(
+            'Transition hints have to be between two color stops'
+        );
+    });
+
+    it.each([
+        'linear-gradient(50%, red, blue)',
+        'linear-gradient(red, blue, 50%)',
+        'linear-gradient(red, 20%, 40%, blue)',
+    ])('only allows hints between two color stops in %s', (input) => {
+        expect(parseError(input).reason).toBe(
+            'Transition hints have to be between two color stops'
+        );
+    });
+
+    it('points errors at the layer they are in', () => {
+        const input = 'linear-gradient(red, blue), linear-gradient(red)';
+        expect(parseError(input).position).toBeGreaterThanOrEqual(input.lastIndexOf('linear'));
+    });
+
+    it.each(['top', 'left', 'top left', 'bottom right'])(
+        'only leaves out the `to` of %s in prefixed gradients',
+        (side) => {
+            expect(parseError(`linear-gradient(${side}, red, blue)`).reason).toMatch(
+                /^Invalid direction/
+            );
+            expect(parseGradientList(`-webkit-linear-gradient(${side}, red, blue)`)).toHaveLength(
+                1
+            );
+        }
+    );
+});
@@ -0,0 +1,602 @@
+export type LengthUnit =
+    | 'px'
+    | 'em'
+    | 'rem'
+    | 'vw'
+    | 'vh'
+    | 'vmin'
+    | 'vmax'
+    | 'cm'
+    | 'mm'
+    | 'q'
+    | 'in'
+    | 'pt'
+    | 'pc'
+    | '%';
+
+export type AngleUnit = 'deg' | 'grad' | 'rad' | 'turn';
+
+export interface LengthNode {
+    type: LengthUnit;
+    value: string;
+}
+
+export interface AngleNode {
+    type: AngleUnit;
+    value: string;
+}
+
+export interface NumberNode {
+    type: 'number';
+    value: string;
+}
+
+export interface CalcOperationNode {
+    type: 'operation';
+    operator: '+' | '-' | '*' | '/';
+    left: CalcValue;
+    right: CalcValue;
+}
+
+export type CalcValue = LengthNode | AngleNode | NumberNode | CalcOperationNode;
+
+export interface CalcNode {
+    type: 'calc';
+    value: CalcValue;
+}
+
+/** A length or percentage, or an angle or percentage in conic gradients. */
+export type DistanceNode = LengthNode | AngleNode | CalcNode;
+
+export interface PositionNode {
+    type: 'position';
+    /** Keywords are stored as the percentage they stand for, so `x` is always horizontal. */
+    value: { x: DistanceNode; y: DistanceNode };
+}
+
+export interface ColorStopNode {
+    type: 'color-stop';
+    /** The color as written, e.g. `#fff` or `rgb(0 0 0 / 50%)`. */
+    color: string;
+    length?: DistanceNode | undefined;
+}
+
+/** A transition hint, where the colors on either side are mixed half and half. */
+export interface HintNode {
+    type: 'hint';
+    length: DistanceNode;
+}
+
+export type StopListNode = ColorStopNode | HintNode;
+
+export interface DirectionalNode {
+    type: 'directional';
+    value:
+        | 'top'
+        | 'right'
+        | 'bottom'
+        | 'left'
+        | 'top left'
+        | 'top right'
+        | 'bottom left'
+        | 'bottom right';
+}
+
+export interface LinearGradientNode {
+    type: 'linear-gradient';
+    orientation?: DirectionalNode | AngleNode | undefined;
+    colorStops: StopListNode[];
+}
+
+export interface RepeatingLinearGradientNode extends Omit<LinearGradientNode, 'type'> {
+    type: 'repeating-linear-gradient';
+}
+
+export type ExtentKeyword = 'closest-side' | 'closest-corner' | 'farthest-side' | 'farthest-corner';
+
+export interface RadialGradientNode {
+    type: 'radial-gradient';
+    orientation: {
+        shape: 'circle' | 'ellipse';
+        /** An extent keyword, or the radius of a circle or both radii of an ellipse. */
+        size: ExtentKeyword | DistanceNode[];
+        at?: PositionNode | undefined;
+    };
+    colorStops: StopListNode[];
+}
+
+export interface RepeatingRadialGradientNode extends Omit<RadialGradientNode, 'type'> {
+    type: 'repeating-radial-gradient';
+}
+
+export interface ConicGradientNode {
+    type: 'conic-gradient';
+    orientation?: { from?: AngleNode | undefined; at?: PositionNode | undefined } | undefined;
+    colorStops: StopListNode[];
+}
+
+export interface RepeatingConicGradientNode extends Omit<ConicGradientNode, 'type'> {
+    type: 'repeating-conic-gradient';
+}
+
+export type GradientNode =
+    | LinearGradientNode
+    | RepeatingLinearGradientNode
+    | RadialGradientNode
+    | RepeatingRadialGradientNode
+    | ConicGradientNode
+    | RepeatingConicGradientNode;
+
+const NUMBER = '[-+]?(?:[0-9]*\\.[0-9]+|[0-9]+\\.?)(?:e[-+]?[0-9]+)?';
+
+const tokens = {
+    gradient: /^(?:-(?:webkit|moz|o|ms)-)?((?:repeating-)?(?:linear|radial|conic)-gradient)\s*\(/i,
+    angleValue: new RegExp(`^(${NUMBER})(deg|grad|rad|turn)$`, 'i'),
+    lengthValue: new RegExp(`^(${NUMBER})(px|em|rem|vw|vh|vmin|vmax|cm|mm|q|in|pt|pc|%)$`, 'i'),
+    numberValue: new RegExp(`^(${NUMBER})([a-z]+|%)?$`, 'i'),
+    zeroValue: /^[-+]?0*\.?0+$/,
+    calcValue: /^calc\(/i,
+    calcToken: new RegExp(`^\\s*(calc\\(|\\(|\\)|\\*|/|[-+](?=\\s)|${NUMBER}(?:[a-z]+|%)?)`, 'i'),
+    positionKeyword: /^(left|center|right|top|bottom)$/i,
+    sideOrCorner: /^(left|right|top|bottom)$/i,
+    extentKeyword: /^(closest-side|closest-corner|farthest-side|farthest-corner|contain|cover)$/i,
+    shape: /^(circle|ellipse)$/i,
+    image: /^([a-z-]+)\s*\(/i,
+    interpolation: /(?:^|\s)in\s+[a-z-]+(?:\s+(?:shorter|longer|increasing|decreasing)\s+hue)?/i,
+};
+
+/** Thrown for a gradient that can't be parsed, with where in it the problem is. */
+export class GradientParseError extends Error {
+    /** The layer of the gradient that couldn't be parsed, or all of it. */
+    input: string;
+    /** Index into the gradient string where the problem starts. */
+    position: number;
+    /** What is wrong, without the gradient in front like the message has. */
+    reason: string;
+    /** The CSS feature that isn't supported, when the gradient is valid CSS that can't be drawn. */
+    unsupported: string | undefined;
+
+    constructor(input: string, reason: string, position: number, unsupported?: string) {
+        super(`${input}: ${reason}`);
+        this.name = 'GradientParseError';
+        this.input = input;
+        this.position = position;
+        this.reason = reason;
+        this.unsupported = unsupported;
+    }
+}
+
+/**
+ * Throws for `input`, pointing at `at`, the text at fault or its index.
+ * The position is made relative to the whole list by `parseGradientList`.
+ */
+function error(input: string, msg: string, at?: string | number, unsupported?: string): never {
+    const position = typeof at === 'number' ? at : at ? Math.max(input.indexOf(at), 0) : 0;
+    throw new GradientParseError(input, msg, position, unsupported);
+}
+
+/**
+ * Splits `input` wherever `separator` matches outside of parentheses.
+ */
+function splitTopLevel(input: string, separator: RegExp): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const char of input) {
+        if (char === '(') depth += 1;
+        if (char === ')') depth -= 1;
+        if (depth === 0 && separator.test(char)) {
+            if (current.trim()) parts.push(current.trim());
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    if (current.trim()) parts.push(current.trim());
+    return parts;
+}
+
+function matchAngle(value: string): AngleNode | undefined {
+    const captures = tokens.angleValue.exec(value);
+    if (captures) {
+        return { type: captures[2].toLowerCase() as AngleUnit, value: captures[1] };
+    }
+    // Unitless zero is a valid angle
+    if (tokens.zeroValue.test(value)) return { type: 'deg', value: '0' };
+}
+
+function matchLength(value: string): LengthNode | undefined {
+    const captures = tokens.lengthValue.exec(value);
+    if (captures) {
+        return { type: captures[2].toLowerCase() as LengthUnit, value: captures[1] };
+    }
+    // Unitless zero is a valid length
+    if (tokens.zeroValue.test(value)) return { type: 'px', value: '0' };
+}
+
+/**
+ * Parses the inside of a `calc()` into a tree of operations, with the usual precedence.
+ */
+function matchCalc(input: string, expression: string): CalcNode {
+    let rest = expression;
+    const peek = () => tokens.calcToken.exec(rest)?.[1];
+    const consume = () => {
+        const captures =
+            tokens.calcToken.exec(rest) ?? error(input, `Invalid calc(${expression})`, rest.trim());
+        rest = rest.slice(captures[0].length);
+        return captures[1];
+    };
+
+    const matchValue = (): CalcValue => {
+        const token = consume();
+        if (token === '(' || token.toLowerCase() === 'calc(') {
+            const value = matchSum();
+            if (consume() !== ')') error(input, `Missing ) in calc(${expression})`, expression);
+            return value;
+        }
+        const captures =
+            tokens.numberValue.exec(token) ?? error(input, `Unexpected ${token}`, token);
+        if (!captures[2]) return { type: 'number', value: captures[1] };
+        return (
+            matchAngle(token) ??
+            matchLength(token) ??
+            error(input, `Unsupported unit ${captures[2]} in calc()`, token, `${captures[2]} unit`)
+        );
+    };
+    const matchProduct = (): CalcValue => {
+        let left = matchValue();
+        for (let operator = peek(); operator === '*' || operator === '/'; operator = peek()) {
+            consume();
+            left = { type: 'operation', operator, left, right: matchValue() };
+        }
+        return left;
+    };
+    const matchSum = (): CalcValue => {
+        let left = matchProduct();
+        for (let operator = peek(); operator === '+' || operator === '-'; operator = peek()) {
+            consume();
+            left = { type: 'operation', operator, left, right: matchProduct() };
+        }
+        return left;
+    };
+
+    const value = matchSum();
+    if (rest.trim()) error(input, `Unexpected ${rest.trim()} in calc()`, rest.trim());
+    return { type: 'calc', value };
+}
+
+function matchDistance(input: string, value: string, angles = false): DistanceNode | undefined {
+    if (tokens.calcValue.test(value)) {
+        if (!value.endsWith(')')) error(input, 'Missing ) in calc()', value);
+        return matchCalc(input, value.slice(5, -1));
+    }
+    const length = matchLength(value);
+    // Conic gradients measure stops in angles and percentages of a turn
+    if (angles) return matchAngle(value) ?? (length?.type === '%' ? length : undefined);
+    return length;
+}
+
+const POSITION_PERCENTAGES: Record<string, string> = {
+    left: '0',
+    top: '0',
+    center: '50',
+    right: '100',
+    bottom: '100',
+};
+
+/**
+ * Parses a position, with keywords in either order. An offset after a keyword is measured
+ * from that edge, so `right 10px` is stored as `calc(100% - 10px)`.
+ */
+function matchPosition(input: string, parts: string[]): PositionNode {
+    if (parts.length < 1 || parts.length > 4) error(input, 'Missing positioning value', parts[0]);
+    let x: DistanceNode | undefined;
+    let y: DistanceNode | undefined;
+    let rest: DistanceNode[] = [];
+
+    for (let i = 0; i < parts.length; i += 1) {
+        const keyword = tokens.positionKeyword.exec(parts[i])?.[1].toLowerCase();
+        if (!keyword) {
+            rest.push(
+                matchDistance(input, parts[i]) ??
+                    error(input, `Invalid position ${parts[i]}`, parts[i])
+            );
+            continue;
+        }
+
+        let distance: DistanceNode = { type: '%', value: POSITION_PERCENTAGES[keyword] };
+        const offset = parts.length > 2 ? matchDistance(input, parts[i + 1] ?? '') : undefined;
+        if (offset) {
+            i += 1;
+            distance =
+                keyword === 'right' || keyword === 'bottom'
+                    ? {
+                          type: 'calc',
+                          value: {
+                              type: 'operation',
+                              operator: '-',
+                              left: distance,
+                              right: offset.type === 'calc' ? offset.value : offset,
+                          },
+                      }
+                    : offset;
+        }
+
+        if (keyword === 'left' || keyword === 'right') {
+            if (x) error(input, 'Invalid position', parts[i]);
+            x = distance;
+        } else if (keyword === 'top' || keyword === 'bottom') {
+            if (y) error(input, 'Invalid position', parts[i]);
+            y = distance;
+        } else {
+            rest.push(distance);
+        }
+    }
+
+    // Anything without a side keyword fills in the remaining axes, horizontal first
+    if (!x && rest.length) [x, ...rest] = rest;
+    if (!y && rest.length) [y, ...rest] = rest;
+    if (rest.length) error(input, 'Invalid position', parts[0]);
+
+    const center: DistanceNode = { type: '%', value: '50' };
+    return { type: 'position', value: { x: x ?? center, y: y ?? center } };
+}
+
+/** Takes `at <position>` off the end of `parts`. */
+function matchAt(input: string, parts: string[]): PositionNode | undefined {
+    const at = parts.findIndex((part) => part.toLowerCase() === 'at');
+    if (at < 0) return undefined;
+    const position = matchPosition(input, parts.slice(at + 1));
+    parts.splice(at);
+    return position;
+}
+
+/** Names a unit CSS has but the parser doesn't, like `ch`, for errors about it. */
+function unsupportedUnit(value: string): string | undefined {
+    const unit = tokens.numberValue.exec(value)?.[2];
+    return unit ? `${unit} unit` : undefined;
+}
+
+function isColor(value: string) {
+    return !tokens.numberValue.test(value) && !tokens.calcValue.test(value);
+}
+
+/**
+ * Parses a color with up to two positions, which makes one stop per position,
+ * or a position on its own, which is a transition hint.
+ */
+function matchStop(input: string, stop: string, angles: boolean): StopListNode[] {
+    const parts = splitTopLevel(stop, /\s/);
+    const colors = parts.filter(isColor);
+    if (colors.length > 1) error(input, `Unexpected ${colors[1]}`, stop);
+
+    const lengths = parts
+        .filter((part) => !isColor(part))
+        .map(
+            (part) =>
+                matchDistance(input, part, angles) ??
+                error(input, `Invalid color stop position ${part}`, stop, unsupportedUnit(part))
+        );
+    if (lengths.length > 2) error(input, `Unexpected ${parts.slice(3).join(' ')}`, stop);
+
+    if (!colors.length) {
+        if (lengths.length !== 1) error(input, 'Expected color definition', stop);
+        return [{ type: 'hint', length: lengths[0] }];
+    }
+    if (!lengths.length) return [{ type: 'color-stop', color: colors[0] }];
+    return lengths.map((length) => ({ type: 'color-stop', color: colors[0], length }));
+}
+
+function matchStopList(input: string, stops: string[], angles = false): StopListNode[] {
+    // The stop each node came from, to point at it in errors
+    const sources: string[] = [];
+    const list = stops.flatMap((stop) => {
+        const nodes = matchStop(input, stop, angles);
+        sources.push(...nodes.map(() => stop));
+        return nodes;
+    });
+    list.forEach((node, index) => {
+        if (node.type !== 'hint') return;
+        if (index === 0 || index === list.length - 1 || list[index - 1].type === 'hint') {
+            error(input, 'Transition hints have to be between two color stops', sources[index]);
+        }
+    });
+    if (list.filter((node) => node.type === 'color-stop').length < 2) {
+        error(input, 'gradient needs at least two color stops', stops[0] ?? input.length);
+    }
+    return list;
+}
+
+/** A quarter turn in each angle unit, to convert the angles of prefixed gradients. */
+const QUARTER_TURN: Record<AngleUnit, number> = {
+    deg: 90,
+    grad: 100,
+    rad: Math.PI / 2,
+    turn: 0.25,
+};
+
+const OPPOSITE_SIDE: Record<string, string> = {
+    top: 'bottom',
+    bottom: 'top',
+    left: 'right',
+    right: 'left',
+};
+
+function matchLinearOrientation(
+    input: string,
+    argument: string,
+    prefixed: boolean
+): LinearGradientNode['orientation'] {
+    const angle = matchAngle(argument);
+    // Prefixed angles point east at 0 and go counter-clockwise, standard ones point north and go clockwise
+    if (angle && prefixed) {
+        return { type: angle.type, value: String(QUARTER_TURN[angle.type] - Number(angle.value)) };
+    }
+    if (angle) return angle;
+
+    const parts = splitTopLevel(argument, /\s/).map((part) => part.toLowerCase());
+    // Prefixed gradients leave out the `to` and name the side they start from, not the one they go to
+    const sides =
+        parts[0] === 'to'
+            ? parts.slice(1)
+            : parts.map((side) => (prefixed ? (OPPOSITE_SIDE[side] ?? side) : side));
+    if (
+        !sides.length ||
+        sides.length > 2 ||
+        !sides.every((side) => tokens.sideOrCorner.test(side))
+    ) {
+        if (parts[0] === 'to') error(input, `Invalid direction ${argument}`, argument);
+        return undefined;
+    }
+    // Only the prefixed syntax allows leaving out the `to`, a browser drops the unprefixed gradient
+    if (parts[0] !== 'to' && !prefixed) {
+        error(input, `Invalid direction ${argument}, expected to ${argument}`, argument);
+    }
+    if (sides.length === 1) {
+        return { type: 'directional', value: sides[0] as DirectionalNode['value'] };
+    }
+
+    // Corners are stored vertical side first, whichever order they were written in
+    const vertical = sides.find((side) => side === 'top' || side === 'bottom');
+    const horizontal = sides.find((side) => side === 'left' || side === 'right');
+    if (!vertical || !horizontal) error(input, `Invalid direction ${argument}`, argument);
+    return { type: 'directional', value: `${vertical} ${horizontal}` as DirectionalNode['value'] };
+}
+
+function matchRadialOrientation(
+    input: string,
+    argument: string
+): RadialGradientNode['orientation'] | undefined {
+    const parts = splitTopLevel(argument, /\s/);
+    const at = matchAt(input, parts);
+
+    let shape: RadialGradientNode['orientation']['shape'] | undefined;
+    let extent: ExtentKeyword | undefined;
+    const radii: DistanceNode[] = [];
+    for (const part of parts) {
+        const value = part.toLowerCase();
+        if (!shape && tokens.shape.test(value)) {
+            shape = value as RadialGradientNode['orientation']['shape'];
+        } else if (!extent && tokens.extentKeyword.test(value)) {
+            // contain and cover are the old names of closest-side and farthest-corner
+            if (value === 'contain') extent = 'closest-side';
+            else if (value === 'cover') extent = 'farthest-corner';
+            else extent = value as ExtentKeyword;
+        } else {
+            const radius = matchDistance(input, part);
+            if (radius) {
+                radii.push(radius);
+                continue;
+            }
+            // Without a shape, size or position this is the first color stop
+            if (shape || extent || at) error(input, `Unexpected ${part}`, part);
+            return undefined;
+        }
+    }
+    if (!shape && !extent && !radii.length && !at) return undefined;
+    if (extent && radii.length) {
+        error(input, 'Expected either an extent keyword or a size', argument);
+    }
+
+    shape ??= radii.length === 1 ? 'circle' : 'ellipse';
+    if (radii.length !== 0 && radii.length !== (shape === 'circle' ? 1 : 2)) {
+        const msg = shape === 'circle' ? 'Circles take one radius' : 'Ellipses take two radii';
+        error(input, msg, argument);
+    }
+    return { shape, size: radii.length ? radii : (extent ?? 'farthest-corner'), at };
+}
+
+function matchConicOrientation(input: string, argument: string): ConicGradientNode['orientation'] {
+    const parts = splitTopLevel(argument, /\s/);
+    const first = parts[0].toLowerCase();
+    if (first !== 'from' && first !== 'at') return undefined;
+
+    const orientation: NonNullable<ConicGradientNode['orientation']> = {};
+    orientation.at = matchAt(input, parts);
+    if (parts.length) {
+        if (parts.length !== 2 || parts[0].toLowerCase() !== 'from') {
+            error(input, `Unexpected ${parts.join(' ')}`, parts[0]);
+        }
+        orientation.from =
+            matchAngle(parts[1]) ?? error(input, 'Missing angle after from', parts[0]);
+    }
+    return orientation;
+}
+
+function parseGradient(input: string): GradientNode {
+    const captures = tokens.gradient.exec(input);
+    if (!captures) {
+        // Other images, like url() or image-set(), are valid backgrounds but can't be drawn
+        const image = tokens.image.exec(input)?.[1].toLowerCase();
+        if (image) error(input, `Expected a gradient, not ${image}()`, 0, `${image}()`);
+        error(input, 'Expected a gradient');
+    }
+    const body = input.slice(captures[0].length);
+    if (!body.endsWith(')')) error(input, 'Missing )', input.length);
+
+    const type = captures[1].toLowerCase() as GradientNode['type'];
+    const args = splitTopLevel(body.slice(0, -1), /,/);
+    if (!args.length) error(input, 'Expected color definition', captures[0].length);
+    const interpolation = tokens.interpolation.exec(args[0])?.[0];
+    if (interpolation) {
+        error(
+            input,
+            `Color interpolation methods are not supported, use the colorInterpolation option`,
+            interpolation,
+            'color interpolation method'
+        );
+    }
+
+    if (type === 'conic-gradient' || type === 'repeating-conic-gradient') {
+        const orientation = matchConicOrientation(input, args[0]);
+        return {
+            type,
+            orientation,
+            colorStops: matchStopList(input, args.slice(orientation ? 1 : 0), true),
+        };
+    }
+    if (type === 'radial-gradient' || type === 'repeating-radial-gradient') {
+        const orientation = matchRadialOrientation(input, args[0]);
+        return {
+            type,
+            orientation: orientation ?? { shape: 'ellipse', size: 'farthest-corner' },
+            colorStops: matchStopList(input, args.slice(orientation ? 1 : 0)),
+        };
+    }
+    const orientation = matchLinearOrientation(input, args[0], captures[0].startsWith('-'));
+    return {
+        type,
+        orientation,
+        colorStops: matchStopList(input, args.slice(orientation ? 1 : 0)),
+    };
+}
+
+/**
+ * Splits a CSS gradient list into its layers, with the index each one starts at in `input`.
+ */
+export function splitGradientList(input: string): { layer: string; position: number }[] {
+    const code = input.replace(/;\s*$/, '');
+    let from = 0;
+    return splitTopLevel(code, /,/).map((layer) => {
+        const position = code.indexOf(layer, from);
+        from = position + layer.length;
+        return { layer, position };
+    });
+}
+
+/**
+ * Parses a CSS gradient string into one node per layer.
+ * Throws a `GradientParseError` positioned in `input` if any layer is invalid.
+ */
+export function parseGradientList(input: string): GradientNode[] {
+    const layers = splitGradientList(input);
+    if (!layers.length) error(input, 'gradient needs at least one layer');
+    return layers.map(({ layer, position }) => {
+        try {
+            return parseGradient(layer);
+        } catch (err) {
+            if (err instanceof GradientParseError) err.position += position;
+            throw err;
+        }
+    });
+}
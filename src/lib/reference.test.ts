@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+
+import type { ReferenceRenderOptions } from './reference';
+import { renderGrainyGradientToImageData } from './reference';
+import type { GradientBlendMode, NoiseType } from './utils';
+
+const solid = (color: string) => `linear-gradient(${color}, ${color})`;
+const GRAY_RAMP = 'linear-gradient(90deg, #444, #bbb)';
+
+function render(gradient: string, options: ReferenceRenderOptions = {}, width = 16, height = 16) {
+    return Array.from(renderGrainyGradientToImageData(gradient, width, height, options).data);
+}
+
+/** The color of the first pixel, for gradients that are the same everywhere. */
+function pixel(gradient: string, options: ReferenceRenderOptions = {}) {
+    return render(gradient, { grainIntensity: 0, ...options }, 2, 2).slice(0, 4);
+}
+
+describe('renderGrainyGradientToImageData', () => {
+    it('draws the same pixels for the same seed', () => {
+        expect(render(GRAY_RAMP, { noiseSeed: 7 })).toEqual(render(GRAY_RAMP, { noiseSeed: 7 }));
+    });
+
+    it('draws different grain for a different seed', () => {
+        expect(render(GRAY_RAMP, { noiseSeed: 7 })).not.toEqual(
+            render(GRAY_RAMP, { noiseSeed: 8 })
+        );
+    });
+
+    it('draws different grain for each noise type', () => {
+        const types: NoiseType[] = ['white', 'blue', 'bayer2', 'bayer4', 'bayer8'];
+        const images = types.map((noiseType) => render(GRAY_RAMP, { noiseType }));
+        images.forEach((image, i) => {
+            images.slice(i + 1).forEach((other) => expect(image).not.toEqual(other));
+        });
+    });
+
+    it('uses the 8x8 matrix for bayer', () => {
+        expect(render(GRAY_RAMP, { noiseType: 'bayer' })).toEqual(
+            render(GRAY_RAMP, { noiseType: 'bayer8' })
+        );
+    });
+
+    it('draws no grain at zero intensity', () => {
+        const image = render(solid('rgb(64 128 192)'), { grainIntensity: 0 });
+        for (let i = 0; i < image.length; i += 4) {
+            expect(image.slice(i, i + 4)).toEqual([64, 128, 192, 255]);
+        }
+    });
+
+    it('keeps the alpha of the stops', () => {
+        expect(pixel(solid('rgb(0 0 255 / 50%)'))).toEqual([0, 0, 255, 128]);
+        expect(pixel(solid('transparent'))[3]).toBe(0);
+        // Halfway between an opaque and a transparent stop
+        const [, , , alpha] = render(
+            'linear-gradient(90deg, blue, transparent)',
+            { grainIntensity: 0 },
+            2,
+            1
+        ).slice(0, 4);
+        expect(alpha).toBeGreaterThan(128);
+        expect(alpha).toBeLessThan(255);
+    });
+
+    it.each<[GradientBlendMode, number[]]>([
+        ['normal', [128, 128, 128, 255]],
+        ['multiply', [128, 32, 0, 255]],
+        ['screen', [255, 160, 128, 255]],
+        ['overlay', [255, 64, 0, 255]],
+        ['darken', [128, 64, 0, 255]],
+        ['lighten', [255, 128, 128, 255]],
+    ])('blends layers with %s', (blendMode, expected) => {
+        const gradient = `${solid('rgb(128 128 128)')}, ${solid('rgb(255 64 0)')}`;
+        expect(pixel(gradient, { blendMode })).toEqual(expected);
+    });
+
+    it('picks a blend mode for each layer, repeating the list', () => {
+        const gradient = `${solid('rgb(128 128 128)')}, ${solid('rgb(128 128 128)')}, ${solid('rgb(255 64 0)')}`;
+        // The top layer multiplies onto the middle one, which is drawn normally over the bottom one
+        expect(pixel(gradient, { blendMode: ['multiply', 'normal'] })).toEqual([64, 64, 64, 255]);
+    });
+
+    it('checks the stops of every layer before drawing', () => {
+        const stops = Array.from({ length: 257 }, (_, i) => (i % 2 ? 'red' : 'blue')).join(', ');
+        expect(() =>
+            renderGrainyGradientToImageData(
+                `linear-gradient(red, blue), linear-gradient(${stops})`,
+                1,
+                1
+            )
+        ).toThrow(/the shader only loops over 256/);
+    });
+});
@@ -0,0 +1,311 @@
+import type { GrainyGradientOptions } from './core';
+import type { NoiseSeed, NoiseType, ParsedGradient } from './utils';
+import {
+    BLEND_MODES,
+    SHIMMER_FACTOR,
+    checkStopCount,
+    createNoiseValues,
+    getFontSizeInPx,
+    getLayerSeed,
+    getNoiseSourceSize,
+    isPixelAlignedNoise,
+    packStops,
+    parseGradientLayers,
+} from './utils';
+
+export interface ReferenceRenderOptions
+    extends Pick<
+        GrainyGradientOptions,
+        | 'noiseTextureSize'
+        | 'noiseSeed'
+        | 'noiseType'
+        | 'grainIntensity'
+        | 'grainMode'
+        | 'blendMode'
+        | 'shimmerSpeed'
+        | 'preserveAspect'
+    > {
+    /** Time in milliseconds, passed to gradient functions and used to offset the shimmer. */
+    time?: number;
+    /** Font size in pixels that `em` stop positions are relative to. */
+    fontSize?: number;
+}
+
+/** The pixels of a rendered gradient, an `ImageData` wherever the environment has one. */
+export interface GrainyImageData {
+    data: Uint8ClampedArray;
+    width: number;
+    height: number;
+}
+
+type Color = [number, number, number, number];
+
+/** Stops as the shader reads them back from the texture `packStops` makes, rounding included. */
+function decodeStops(parsed: ParsedGradient) {
+    const { data, range } = packStops(parsed);
+    const { count } = parsed;
+    const colors: Color[] = [];
+    const offsets: number[] = [];
+    const hints: number[] = [];
+    for (let i = 0; i < count; i += 1) {
+        const alpha = data[i * 4 + 3] / 255;
+        colors.push([
+            (data[i * 4 + 0] / 255) * alpha,
+            (data[i * 4 + 1] / 255) * alpha,
+            (data[i * 4 + 2] / 255) * alpha,
+            alpha,
+        ]);
+        const row = (count + i) * 4;
+        const t = (data[row + 0] * 256 + data[row + 1]) / 65535;
+        offsets.push(range[0] + (range[1] - range[0]) * t);
+        hints.push((data[row + 2] * 256 + data[row + 3]) / 65535);
+    }
+    return { colors, offsets, hints, range };
+}
+
+function mod(n: number, d: number) {
+    return n - d * Math.floor(n / d);
+}
+
+function mix(a: Color, b: Color, t: number): Color {
+    return [
+        a[0] + (b[0] - a[0]) * t,
+        a[1] + (b[1] - a[1]) * t,
+        a[2] + (b[2] - a[2]) * t,
+        a[3] + (b[3] - a[3]) * t,
+    ];
+}
+
+function blendChannel(blend: number, backdrop: number, source: number) {
+    if (blend === 1) return backdrop * source;
+    if (blend === 2) return backdrop + source - backdrop * source;
+    if (blend === 3) {
+        return backdrop < 0.5 ? 2 * backdrop * source : 1 - 2 * (1 - backdrop) * (1 - source);
+    }
+    if (blend === 4) return Math.min(backdrop, source);
+    if (blend === 5) return Math.max(backdrop, source);
+    return source;
+}
+
+// Noise is slow to generate, so keep it for the last few seeds that were drawn
+const NOISE_CACHE_SIZE = 16;
+const noiseCache = new Map<string, number[]>();
+
+function getNoiseValues(seed: NoiseSeed, size: number, type: NoiseType) {
+    const key = `${seed}:${size}:${type}`;
+    let values = noiseCache.get(key);
+    if (values) {
+        // Move it to the back, so the least recently used seed is dropped first
+        noiseCache.delete(key);
+    } else {
+        values = createNoiseValues(seed, size, type);
+    }
+    noiseCache.set(key, values);
+    if (noiseCache.size > NOISE_CACHE_SIZE) noiseCache.delete(noiseCache.keys().next().value!);
+    return values;
+}
+
+/** Noise as the shader samples it, bilinear and wrapping for white noise, texel by texel otherwise. */
+function createNoiseSampler(
+    seed: NoiseSeed,
+    grainSize: number,
+    noiseType: NoiseType,
+    width: number,
+    height: number,
+    offset: number
+) {
+    const values = getNoiseValues(seed, grainSize, noiseType);
+    const size = getNoiseSourceSize(noiseType, grainSize);
+    const texel = (x: number, y: number) => values[mod(y, size) * size + mod(x, size)] / 255;
+
+    if (isPixelAlignedNoise(noiseType)) {
+        const shift = Math.floor(offset * size);
+        return (fragX: number, fragY: number) =>
+            texel(Math.floor(fragX) + shift, Math.floor(fragY) + shift);
+    }
+
+    const [scaleX, scaleY] = [(width / grainSize) * Math.E, (height / grainSize) * Math.E];
+    return (fragX: number, fragY: number) => {
+        const u = ((fragX / width) * scaleX + offset) * size - 0.5;
+        const v = ((fragY / height) * scaleY + offset) * size - 0.5;
+        const [x, y] = [Math.floor(u), Math.floor(v)];
+        const [fx, fy] = [u - x, v - y];
+        const bottom = texel(x, y) + (texel(x + 1, y) - texel(x, y)) * fx;
+        const top = texel(x, y + 1) + (texel(x + 1, y + 1) - texel(x, y + 1)) * fx;
+        return bottom + (top - bottom) * fy;
+    };
+}
+
+/**
+ * Renders a grainy gradient without WebGL, for server side previews, tests and browsers that
+ * block WebGL. Follows `FRAGMENT_SHADER` step by step, including the 8 bit layer targets, so the
+ * result matches the component for the same seed up to the GPU's floating point rounding.
+ */
+export function renderGrainyGradientToImageData(
+    gradient: GrainyGradientOptions['gradient'],
+    width: number,
+    height: number,
+    options: ReferenceRenderOptions = {}
+): GrainyImageData {
+    const [w, h] = [Math.max(1, Math.round(width)), Math.max(1, Math.round(height))];
+    const { time = 0, preserveAspect = true, fontSize = getFontSizeInPx() } = options;
+    const gradientString =
+        typeof gradient === 'string' ? gradient : gradient(time, { width: w, height: h });
+    return renderLayersToImageData(
+        parseGradientLayers(gradientString, w, h, preserveAspect, fontSize),
+        w,
+        h,
+        options
+    );
+}
+
+/** Renders gradient layers that have already been parsed for this size, see `renderGrainyGradientToImageData`. */
+export function renderLayersToImageData(
+    parsed: ParsedGradient[],
+    width: number,
+    height: number,
+    {
+        noiseTextureSize = 256,
+        noiseSeed = 0xcafe,
+        noiseType = 'white',
+        grainIntensity = 1,
+        grainMode = 'dither',
+        blendMode = 'normal',
+        shimmerSpeed = 0,
+        time = 0,
+    }: ReferenceRenderOptions = {}
+): GrainyImageData {
+    const [w, h] = [Math.max(1, Math.round(width)), Math.max(1, Math.round(height))];
+    checkStopCount(parsed);
+
+    const grainSize = Math.max(1, Number.isFinite(noiseTextureSize) ? noiseTextureSize : 256);
+    const intensity = Number.isFinite(grainIntensity)
+        ? Math.min(Math.max(grainIntensity, 0), 1)
+        : 1;
+    const offset = shimmerSpeed * time * SHIMMER_FACTOR;
+    const blendModes = Array.isArray(blendMode) ? blendMode : [blendMode];
+
+    // Premultiplied colors, rounded to bytes after every layer like the framebuffers do
+    const pixels = new Float64Array(w * h * 4);
+
+    for (let pass = 0; pass < parsed.length; pass += 1) {
+        const layer = parsed.length - 1 - pass;
+        const parsedGradient = parsed[layer];
+        const { colors, offsets, hints, range } = decodeStops(parsedGradient);
+        const { shape, corners, center, radius, angle, repeating } = parsedGradient;
+        const noise = createNoiseSampler(
+            getLayerSeed(noiseSeed, layer),
+            grainSize,
+            noiseType,
+            w,
+            h,
+            offset
+        );
+        const blend =
+            pass === 0
+                ? -1
+                : BLEND_MODES.indexOf(
+                      blendModes.length ? blendModes[layer % blendModes.length] : 'normal'
+                  );
+
+        for (let py = 0; py < h; py += 1) {
+            for (let px = 0; px < w; px += 1) {
+                // Fragment coordinates have their origin at the bottom left
+                const [fragX, fragY] = [px + 0.5, h - py - 0.5];
+                const [tx, ty] = [fragX / w, fragY / h];
+
+                let factor =
+                    corners[0] + (corners[1] - corners[0]) * tx + (corners[2] - corners[0]) * ty;
+                if (shape === 'radial') {
+                    factor = Math.hypot(
+                        (tx - center[0]) / radius[0],
+                        (1 - ty - center[1]) / radius[1]
+                    );
+                } else if (shape === 'conic') {
+                    const [dx, dy] = [
+                        (tx - center[0]) / radius[0],
+                        (1 - ty - center[1]) / radius[1],
+                    ];
+                    factor = mod((Math.atan2(dx, -dy) - angle) / (Math.PI * 2), 1);
+                }
+
+                const span = range[1] - range[0];
+                if (repeating && span > 0) factor = range[0] + mod(factor - range[0], span);
+
+                let upper = offsets.findIndex((stopOffset) => factor < stopOffset);
+                let lowerColor: Color;
+                let upperColor: Color;
+                let scaledFactor = 0;
+                if (upper === 0) {
+                    lowerColor = upperColor = colors[0];
+                } else if (upper < 0) {
+                    upper = colors.length - 1;
+                    lowerColor = upperColor = colors[upper];
+                } else {
+                    const lower = offsets[upper - 1];
+                    scaledFactor = (factor - lower) / (offsets[upper] - lower);
+                    lowerColor = colors[upper - 1];
+                    upperColor = colors[upper];
+
+                    const hint = hints[upper];
+                    if (hint <= 0) {
+                        scaledFactor = 1;
+                    } else if (hint >= 1) {
+                        scaledFactor = 0;
+                    } else if (Math.abs(hint - 0.5) > 0.0001) {
+                        scaledFactor = Math.pow(scaledFactor, Math.log(0.5) / Math.log(hint));
+                    }
+                }
+
+                const grain = noise(fragX, fragY);
+                const smoothColor = mix(lowerColor, upperColor, scaledFactor);
+                let color: Color;
+                if (grainMode === 'film') {
+                    const amount = (grain - 0.5) * 0.5 * intensity * smoothColor[3];
+                    const a = smoothColor[3];
+                    color = [
+                        Math.min(Math.max(smoothColor[0] + amount, 0), a),
+                        Math.min(Math.max(smoothColor[1] + amount, 0), a),
+                        Math.min(Math.max(smoothColor[2] + amount, 0), a),
+                        a,
+                    ];
+                } else {
+                    const ditheredColor = scaledFactor < grain ? lowerColor : upperColor;
+                    color = mix(smoothColor, ditheredColor, intensity);
+                }
+
+                const i = (py * w + px) * 4;
+                if (blend >= 0) {
+                    // Composite over the layers below, blending where they are opaque
+                    const backdrop = pixels.subarray(i, i + 4);
+                    const result: Color = [0, 0, 0, color[3] + backdrop[3] * (1 - color[3])];
+                    for (let c = 0; c < 3; c += 1) {
+                        const backdropColor = backdrop[3] > 0 ? backdrop[c] / backdrop[3] : 0;
+                        const sourceColor = color[3] > 0 ? color[c] / color[3] : 0;
+                        const blended =
+                            sourceColor +
+                            (blendChannel(blend, backdropColor, sourceColor) - sourceColor) *
+                                backdrop[3];
+                        result[c] = blended * color[3] + backdrop[c] * (1 - color[3]);
+                    }
+                    color = result;
+                }
+                for (let c = 0; c < 4; c += 1) {
+                    pixels[i + c] = Math.round(Math.min(Math.max(color[c], 0), 1) * 255) / 255;
+                }
+            }
+        }
+    }
+
+    // Canvas pixels are read back with straight alpha
+    const output = new Uint8ClampedArray(w * h * 4);
+    for (let i = 0; i < pixels.length; i += 4) {
+        const alpha = pixels[i + 3];
+        for (let c = 0; c < 3; c += 1) {
+            output[i + c] = alpha > 0 ? Math.round((pixels[i + c] / alpha) * 255) : 0;
+        }
+        output[i + 3] = Math.round(alpha * 255);
+    }
+    if (typeof ImageData !== 'undefined') return new ImageData(output, w, h);
+    return { data: output, width: w, height: h };
+}
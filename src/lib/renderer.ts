@@ -0,0 +1,524 @@
+import * as twgl from 'twgl.js';
+
+import type {
+    GradientBlendMode,
+    GrainMode,
+    NoiseSeed,
+    NoiseType,
+    ParsedGradient,
+    ViewportMetrics,
+} from './utils';
+import {
+    VERTEX_SHADER,
+    FRAGMENT_SHADER,
+    BLEND_MODES,
+    checkStopCount,
+    createNoiseSource,
+    getLayerSeed,
+    getNoiseSourceSize,
+    isPixelAlignedNoise,
+    compileGradient,
+    packStops,
+    SHIMMER_FACTOR,
+} from './utils';
+
+/** How each uniform of the fragment shader is uploaded. */
+const UNIFORMS = {
+    u_scale: 'vec2',
+    u_noise_aligned: 'int',
+    u_noise_size: 'float',
+    u_grain_intensity: 'float',
+    u_grain_mode: 'int',
+    u_factors: 'float[]',
+    u_shape: 'int',
+    u_repeating: 'int',
+    u_center: 'vec2',
+    u_radius: 'vec2',
+    u_angle: 'float',
+    u_stop_count: 'int',
+    u_offset_range: 'vec2',
+    u_tex_offset: 'float',
+    u_blend: 'int',
+    u_backdrop_size: 'vec2',
+} as const;
+
+type UniformName = keyof typeof UNIFORMS;
+
+function initializeCanvas(gl: WebGLRenderingContext): {
+    program: WebGLProgram;
+    uniforms: Record<UniformName, WebGLUniformLocation | null>;
+} {
+    // Create WebGL shader
+    const program = twgl.createProgramFromSources(gl, [VERTEX_SHADER, FRAGMENT_SHADER]);
+    gl.useProgram(program);
+
+    // Create screen quad
+    const positionLocation = gl.getAttribLocation(program, 'a_position');
+    const positionBuffer = gl.createBuffer();
+    gl.bindBuffer(gl.ARRAY_BUFFER, positionBuffer);
+
+    // Corners in order: bottom left, bottom right, top left, top right
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW);
+    gl.enableVertexAttribArray(positionLocation);
+    gl.vertexAttribPointer(positionLocation, 2, gl.FLOAT, false, 0, 0);
+
+    // Bind noise texture sampler to texture unit 0, the layer backdrop to unit 1 and stops to unit 2 once
+    const samplerLocation = gl.getUniformLocation(program, 'u_noise_texture');
+    if (samplerLocation) {
+        gl.uniform1i(samplerLocation, 0);
+    }
+    const backdropLocation = gl.getUniformLocation(program, 'u_backdrop');
+    if (backdropLocation) {
+        gl.uniform1i(backdropLocation, 1);
+    }
+    const stopsLocation = gl.getUniformLocation(program, 'u_stops');
+    if (stopsLocation) {
+        gl.uniform1i(stopsLocation, 2);
+    }
+
+    // Looking uniforms up is slow, so it is done once rather than every frame
+    const uniforms = Object.fromEntries(
+        Object.keys(UNIFORMS).map((name) => [name, gl.getUniformLocation(program, name)])
+    ) as Record<UniformName, WebGLUniformLocation | null>;
+    return { program, uniforms };
+}
+
+function createNoiseTexture(
+    gl: WebGLRenderingContext,
+    seed: NoiseSeed,
+    size: number,
+    type: NoiseType
+): WebGLTexture | null {
+    const texture = gl.createTexture();
+    const textureData = createNoiseSource(seed, size, type);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, textureData);
+
+    if (isPixelAlignedNoise(type)) {
+        // Looked up texel by texel, interpolating would blur the pattern away
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+        return texture;
+    }
+
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.REPEAT);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.REPEAT);
+
+    gl.generateMipmap(gl.TEXTURE_2D);
+    return texture;
+}
+
+/** Two render targets that layers are drawn into in turn, each one reading the result of the last. */
+interface LayerTargets {
+    width: number;
+    height: number;
+    textures: (WebGLTexture | null)[];
+    framebuffers: (WebGLFramebuffer | null)[];
+}
+
+function createLayerTargets(
+    gl: WebGLRenderingContext,
+    width: number,
+    height: number
+): LayerTargets {
+    const targets: LayerTargets = { width, height, textures: [], framebuffers: [] };
+    for (let i = 0; i < 2; i += 1) {
+        const texture = gl.createTexture();
+        gl.bindTexture(gl.TEXTURE_2D, texture);
+        gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, width, height, 0, gl.RGBA, gl.UNSIGNED_BYTE, null);
+        // Non power of two sizes need clamping and no mipmaps in WebGL1
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+
+        const framebuffer = gl.createFramebuffer();
+        gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+        gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, texture, 0);
+
+        targets.textures.push(texture);
+        targets.framebuffers.push(framebuffer);
+    }
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    return targets;
+}
+
+function deleteLayerTargets(gl: WebGLRenderingContext, targets: LayerTargets) {
+    targets.textures.forEach((texture) => gl.deleteTexture(texture));
+    targets.framebuffers.forEach((framebuffer) => gl.deleteFramebuffer(framebuffer));
+}
+
+/** Everything needed to draw gradients with one WebGL context, shared by all gradients drawn with it. */
+export interface GradientRenderer {
+    gl: WebGLRenderingContext;
+    program: WebGLProgram;
+    stopTexture: WebGLTexture | null;
+    /** Sets a uniform of the program, unless it already has these values. */
+    setUniform: (name: UniformName, ...values: number[]) => void;
+    /** Uploads stops packed by `packStops` to the stop texture, unless it already holds them. */
+    uploadStops: (data: Uint8Array, count: number) => void;
+    /** Noise texture for a seed, size and type, generated the first time it is asked for. */
+    noiseTexture: (seed: NoiseSeed, size: number, type: NoiseType) => WebGLTexture | null;
+    /** Deletes the noise textures that haven't been asked for since `time`. */
+    releaseNoiseTextures: (time: number) => void;
+    /** Targets for drawing layers into, at least `width` by `height` in size. */
+    layerTargets: (width: number, height: number) => LayerTargets;
+    dispose: () => void;
+}
+
+export function createGradientRenderer(gl: WebGLRenderingContext): GradientRenderer {
+    const { program, uniforms } = initializeCanvas(gl);
+    const noiseTextures = new Map<string, { texture: WebGLTexture | null; lastUsed: number }>();
+    let targets: LayerTargets | null = null;
+
+    // Uniforms keep their values between draws, so only the ones that change are uploaded again
+    const uniformValues = new Map<UniformName, number[]>();
+    let stops: Uint8Array | null = null;
+
+    const stopTexture = gl.createTexture();
+    gl.activeTexture(gl.TEXTURE2);
+    gl.bindTexture(gl.TEXTURE_2D, stopTexture);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+
+    return {
+        gl,
+        program,
+        stopTexture,
+        setUniform: (name, ...values) => {
+            const last = uniformValues.get(name);
+            if (last?.length === values.length && last.every((value, i) => value === values[i])) {
+                return;
+            }
+            uniformValues.set(name, values);
+            const location = uniforms[name];
+            switch (UNIFORMS[name]) {
+                case 'int':
+                    return gl.uniform1i(location, values[0]);
+                case 'float':
+                    return gl.uniform1f(location, values[0]);
+                case 'vec2':
+                    return gl.uniform2f(location, values[0], values[1]);
+                case 'float[]':
+                    return gl.uniform1fv(location, values);
+            }
+        },
+        uploadStops: (data, count) => {
+            gl.activeTexture(gl.TEXTURE2);
+            gl.bindTexture(gl.TEXTURE_2D, stopTexture);
+            if (stops?.length === data.length && stops.every((value, i) => value === data[i])) {
+                return;
+            }
+            stops = data;
+            gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, count, 2, 0, gl.RGBA, gl.UNSIGNED_BYTE, data);
+        },
+        noiseTexture: (seed, size, type) => {
+            const key = `${seed}:${size}:${type}`;
+            let entry = noiseTextures.get(key);
+            if (!entry) {
+                entry = { texture: createNoiseTexture(gl, seed, size, type), lastUsed: 0 };
+                noiseTextures.set(key, entry);
+            }
+            entry.lastUsed = performance.now();
+            return entry.texture;
+        },
+        releaseNoiseTextures: (time) => {
+            noiseTextures.forEach((entry, key) => {
+                if (entry.lastUsed >= time) return;
+                gl.deleteTexture(entry.texture);
+                noiseTextures.delete(key);
+            });
+        },
+        layerTargets: (width, height) => {
+            if (targets && targets.width >= width && targets.height >= height) return targets;
+            // Only ever grow, so that gradients of different sizes can take turns drawing
+            const [w, h] = [
+                Math.max(width, targets?.width ?? 0),
+                Math.max(height, targets?.height ?? 0),
+            ];
+            if (targets) deleteLayerTargets(gl, targets);
+            targets = createLayerTargets(gl, w, h);
+            return targets;
+        },
+        dispose: () => {
+            gl.deleteTexture(stopTexture);
+            noiseTextures.forEach((entry) => gl.deleteTexture(entry.texture));
+            noiseTextures.clear();
+            if (targets) deleteLayerTargets(gl, targets);
+            targets = null;
+            gl.deleteProgram(program);
+        },
+    };
+}
+
+/** The parts of `EXT_disjoint_timer_query` that are used, the DOM types don't include it. */
+interface DisjointTimerQuery {
+    TIME_ELAPSED_EXT: number;
+    GPU_DISJOINT_EXT: number;
+    QUERY_RESULT_EXT: number;
+    QUERY_RESULT_AVAILABLE_EXT: number;
+    createQueryEXT: () => WebGLQuery | null;
+    deleteQueryEXT: (query: WebGLQuery | null) => void;
+    beginQueryEXT: (target: number, query: WebGLQuery) => void;
+    endQueryEXT: (target: number) => void;
+    getQueryObjectEXT: (query: WebGLQuery, pname: number) => unknown;
+}
+
+// Results come back a few frames late, so frames past this many waiting aren't timed
+const MAX_PENDING_QUERIES = 4;
+
+/** Times draws on the GPU, which finishes them some time after the draw calls return. */
+export interface GpuTimer {
+    /** Starts timing the draw calls made until `end`. */
+    begin: () => void;
+    end: () => void;
+    /** Milliseconds the GPU took for each timed frame that has finished since the last call, oldest first. */
+    collect: () => number[];
+    dispose: () => void;
+}
+
+/**
+ * Creates a timer for draws with `gl`, or returns null if the context doesn't support `EXT_disjoint_timer_query`.
+ */
+export function createGpuTimer(gl: WebGLRenderingContext): GpuTimer | null {
+    const ext = gl.getExtension('EXT_disjoint_timer_query') as DisjointTimerQuery | null;
+    if (!ext) return null;
+    const pending: WebGLQuery[] = [];
+    let active: WebGLQuery | null = null;
+
+    return {
+        begin: () => {
+            if (active || pending.length >= MAX_PENDING_QUERIES) return;
+            active = ext.createQueryEXT();
+            if (active) ext.beginQueryEXT(ext.TIME_ELAPSED_EXT, active);
+        },
+        end: () => {
+            if (!active) return;
+            ext.endQueryEXT(ext.TIME_ELAPSED_EXT);
+            pending.push(active);
+            active = null;
+        },
+        collect: () => {
+            // Times are meaningless across a disjoint, like the GPU changing its clock speed
+            const disjoint = !!gl.getParameter(ext.GPU_DISJOINT_EXT);
+            const times: number[] = [];
+            while (pending.length) {
+                const query = pending[0];
+                if (!ext.getQueryObjectEXT(query, ext.QUERY_RESULT_AVAILABLE_EXT)) break;
+                pending.shift();
+                const elapsed = ext.getQueryObjectEXT(query, ext.QUERY_RESULT_EXT) as number;
+                ext.deleteQueryEXT(query);
+                if (!disjoint) times.push(elapsed / 1e6);
+            }
+            return times;
+        },
+        dispose: () => {
+            if (active) ext.endQueryEXT(ext.TIME_ELAPSED_EXT);
+            pending.forEach((query) => ext.deleteQueryEXT(query));
+            ext.deleteQueryEXT(active);
+            pending.length = 0;
+            active = null;
+        },
+    };
+}
+
+/**
+ * Gets a WebGL context for `canvas`, trying the prefixed name as well for broader compatibility.
+ */
+export function getWebGLContext(
+    canvas: HTMLCanvasElement | OffscreenCanvas,
+    contextAttributes?: WebGLContextAttributes,
+    forceWebGL1 = true
+): WebGLRenderingContext | null {
+    let context: WebGLRenderingContext | null = null;
+    if (forceWebGL1) {
+        context = (canvas as HTMLCanvasElement).getContext('webgl', contextAttributes ?? undefined);
+    }
+    // OffscreenCanvas throws on names it doesn't know
+    if (!context && !isOffscreenCanvas(canvas)) {
+        context = canvas.getContext(
+            'experimental-webgl',
+            contextAttributes ?? undefined
+        ) as unknown as WebGLRenderingContext | null;
+    }
+    return context;
+}
+
+export function isOffscreenCanvas(
+    canvas: HTMLCanvasElement | OffscreenCanvas
+): canvas is OffscreenCanvas {
+    return typeof OffscreenCanvas !== 'undefined' && canvas instanceof OffscreenCanvas;
+}
+
+export function getContext2D(
+    canvas: HTMLCanvasElement | OffscreenCanvas
+): CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null {
+    return isOffscreenCanvas(canvas) ? canvas.getContext('2d') : canvas.getContext('2d');
+}
+
+/** How long, in milliseconds, a shared renderer keeps noise textures that no gradient is drawing. */
+export const SHARED_NOISE_TEXTURE_LIFETIME = 5000;
+
+/** One offscreen WebGL context that any number of gradients draw with, created when first needed. */
+export interface SharedRenderer {
+    /** The renderer, or null if WebGL isn't available or the context is lost. */
+    get: () => GradientRenderer | null;
+    /** Calls `listener` whenever the shared context is lost or restored, returns a function to unsubscribe. */
+    subscribe: (listener: (lost: boolean) => void) => () => void;
+    dispose: () => void;
+}
+
+export function createSharedRenderer(contextAttributes?: WebGLContextAttributes): SharedRenderer {
+    let context: WebGLRenderingContext | null = null;
+    let renderer: GradientRenderer | null = null;
+    let failed = false;
+    let lost = false;
+    const listeners = new Set<(lost: boolean) => void>();
+
+    const handleContextLost = (event: Event) => {
+        // Without this the browser never restores the context
+        event.preventDefault();
+        lost = true;
+        renderer = null;
+        listeners.forEach((listener) => listener(true));
+    };
+    const handleContextRestored = () => {
+        lost = false;
+        renderer = context && createGradientRenderer(context);
+        listeners.forEach((listener) => listener(false));
+    };
+
+    return {
+        get: () => {
+            if (renderer || failed || lost || typeof document === 'undefined') return renderer;
+            const canvas = document.createElement('canvas');
+            try {
+                context = getWebGLContext(canvas, contextAttributes);
+            } catch {
+                context = null;
+            }
+            failed = !context;
+            if (!context) return null;
+
+            canvas.addEventListener('webglcontextlost', handleContextLost);
+            canvas.addEventListener('webglcontextrestored', handleContextRestored);
+            renderer = createGradientRenderer(context);
+            return renderer;
+        },
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => listeners.delete(listener);
+        },
+        dispose: () => {
+            renderer?.dispose();
+            if (context?.canvas instanceof HTMLCanvasElement) {
+                context.canvas.removeEventListener('webglcontextlost', handleContextLost);
+                context.canvas.removeEventListener('webglcontextrestored', handleContextRestored);
+            }
+            context = null;
+            renderer = null;
+            failed = false;
+            lost = false;
+        },
+    };
+}
+
+export function renderGradient(
+    renderer: GradientRenderer,
+
+    width: number,
+    height: number,
+
+    gradient: string | ParsedGradient[],
+    grainSize: number,
+
+    grainOffset: number,
+    preserveAspect: boolean,
+    noiseSeed: NoiseSeed | NoiseSeed[],
+    noiseType: NoiseType,
+    grainIntensity: number,
+    grainMode: GrainMode,
+
+    blendModes: GradientBlendMode[],
+    fontSize: number,
+    viewport?: ViewportMetrics
+): void {
+    const { gl, program } = renderer;
+    const parsed =
+        typeof gradient === 'string'
+            ? compileGradient(gradient).resolve(width, height, preserveAspect, fontSize, viewport)
+            : gradient;
+    // Checked up front, a layer with too many stops half way through would leave the others drawn
+    checkStopCount(parsed);
+
+    gl.useProgram(program);
+    gl.viewport(0, 0, width, height);
+
+    // CSS lists the top layer first, so draw from the back of the list
+    for (let pass = 0; pass < parsed.length; pass += 1) {
+        const layer = parsed.length - 1 - pass;
+        const parsedGradient = parsed[layer];
+
+        gl.activeTexture(gl.TEXTURE0);
+        gl.bindTexture(
+            gl.TEXTURE_2D,
+            renderer.noiseTexture(getLayerSeed(noiseSeed, layer), grainSize, noiseType)
+        );
+
+        renderer.setUniform(
+            'u_scale',
+            (width / grainSize) * 1.0 * Math.E,
+            (height / grainSize / 1.0) * Math.E
+        );
+        renderer.setUniform('u_noise_aligned', isPixelAlignedNoise(noiseType) ? 1 : 0);
+        renderer.setUniform('u_noise_size', getNoiseSourceSize(noiseType, grainSize));
+        renderer.setUniform('u_grain_intensity', grainIntensity);
+        renderer.setUniform('u_grain_mode', grainMode === 'film' ? 1 : 0);
+        renderer.setUniform('u_factors', ...parsedGradient.corners);
+        renderer.setUniform('u_shape', ['linear', 'radial', 'conic'].indexOf(parsedGradient.shape));
+        renderer.setUniform('u_repeating', parsedGradient.repeating ? 1 : 0);
+        renderer.setUniform('u_center', parsedGradient.center[0], parsedGradient.center[1]);
+        renderer.setUniform('u_radius', parsedGradient.radius[0], parsedGradient.radius[1]);
+        renderer.setUniform('u_angle', parsedGradient.angle);
+
+        const { data: stopData, range } = packStops(parsedGradient);
+        renderer.uploadStops(stopData, parsedGradient.count);
+        renderer.setUniform('u_stop_count', parsedGradient.count);
+        renderer.setUniform('u_offset_range', range[0], range[1]);
+        renderer.setUniform('u_tex_offset', grainOffset * SHIMMER_FACTOR);
+
+        // The bottom layer has nothing to blend with, every other layer reads the one below it
+        gl.activeTexture(gl.TEXTURE1);
+        if (pass === 0) {
+            renderer.setUniform('u_blend', -1);
+            // Unbind so the backdrop is never also the framebuffer being drawn into
+            gl.bindTexture(gl.TEXTURE_2D, null);
+        } else {
+            const blendMode = blendModes.length ? blendModes[layer % blendModes.length] : 'normal';
+            renderer.setUniform('u_blend', BLEND_MODES.indexOf(blendMode));
+            const targets = renderer.layerTargets(width, height);
+            gl.bindTexture(gl.TEXTURE_2D, targets.textures[(pass - 1) % 2]);
+            renderer.setUniform('u_backdrop_size', targets.width, targets.height);
+        }
+
+        const lastPass = pass === parsed.length - 1;
+        gl.bindFramebuffer(
+            gl.FRAMEBUFFER,
+            lastPass ? null : renderer.layerTargets(width, height).framebuffers[pass % 2]
+        );
+
+        if (lastPass) {
+            gl.clearColor(0, 0, 0, 0);
+            gl.clear(gl.COLOR_BUFFER_BIT);
+        }
+
+        gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+    }
+}
@@ -0,0 +1,345 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import type { GrainyGradientOptions } from './core';
+import { createRenderLoop } from './loop';
+import { GradientParseError } from './parser';
+import { compileGradient, parseGradientLayers, validateGradient } from './utils';
+
+const ASPECT_RATIOS: [number, number][] = [
+    [100, 100],
+    [200, 100],
+    [100, 300],
+    [1920, 1080],
+];
+
+function parseLinear(gradient: string, width: number, height: number, preserveAspect = true) {
+    return parseGradientLayers(gradient, width, height, preserveAspect, 16)[0];
+}
+
+/**
+ * The CSS Images reference math: the gradient line goes through the center of the box at `angle`,
+ * and is just long enough for the corners closest to its ends to sit at 0% and 100%.
+ */
+function referenceProgress(x: number, y: number, width: number, height: number, angle: number) {
+    const length = Math.abs(width * Math.sin(angle)) + Math.abs(height * Math.cos(angle));
+    const start = [
+        width / 2 - (Math.sin(angle) * length) / 2,
+        height / 2 + (Math.cos(angle) * length) / 2,
+    ];
+    const direction = [Math.sin(angle), -Math.cos(angle)];
+    return ((x - start[0]) * direction[0] + (y - start[1]) * direction[1]) / length;
+}
+
+/** Progress at each corner in the order of `ParsedGradient.corners`: bottom left, bottom right, top left, top right. */
+function referenceCorners(width: number, height: number, angle: number) {
+    return [
+        referenceProgress(0, height, width, height, angle),
+        referenceProgress(width, height, width, height, angle),
+        referenceProgress(0, 0, width, height, angle),
+        referenceProgress(width, 0, width, height, angle),
+    ];
+}
+
+function expectCorners(actual: number[], expected: number[]) {
+    actual.forEach((value, i) => expect(value).toBeCloseTo(expected[i], 6));
+}
+
+describe('parseGradient angles', () => {
+    it.each([
+        ['22.5deg', Math.PI / 8],
+        ['-90deg', (Math.PI * 3) / 2],
+        ['450deg', Math.PI / 2],
+        ['0.25turn', Math.PI / 2],
+        ['.5turn', Math.PI],
+        ['100grad', Math.PI / 2],
+        ['1.5rad', 1.5],
+        ['1e2grad', Math.PI / 2],
+        ['0', 0],
+    ])('reads %s', (angle, radians) => {
+        expect(parseLinear(`linear-gradient(${angle}, red, blue)`, 100, 100).angle).toBeCloseTo(
+            radians,
+            6
+        );
+    });
+
+    it('points down without an angle', () => {
+        expect(parseLinear('linear-gradient(red, blue)', 100, 100).angle).toBeCloseTo(Math.PI, 6);
+    });
+
+    it.each(ASPECT_RATIOS)('matches the reference corners at %ix%i', (width, height) => {
+        for (const degrees of [0, 22.5, 45, 90, 135, 200, 315]) {
+            const angle = (degrees / 180) * Math.PI;
+            const parsed = parseLinear(`linear-gradient(${degrees}deg, red, blue)`, width, height);
+            expectCorners(parsed.corners, referenceCorners(width, height, angle));
+        }
+    });
+});
+
+describe('parseGradient sides and corners', () => {
+    it.each([
+        ['top', 0],
+        ['right', 90],
+        ['bottom', 180],
+        ['left', 270],
+    ])('points to %s like %ideg', (side, degrees) => {
+        for (const [width, height] of ASPECT_RATIOS) {
+            const parsed = parseLinear(`linear-gradient(to ${side}, red, blue)`, width, height);
+            const angle = parseLinear(`linear-gradient(${degrees}deg, red, blue)`, width, height);
+            expect(parsed.angle).toBeCloseTo(angle.angle, 6);
+            expectCorners(parsed.corners, angle.corners);
+        }
+    });
+
+    // The gradient line is perpendicular to the diagonal between the two neighbouring corners,
+    // so those sit halfway and the corner it points to is at 100%
+    it.each(ASPECT_RATIOS)('points corner to corner at %ix%i', (width, height) => {
+        const corners: [string, number[]][] = [
+            ['top right', [0, 0.5, 0.5, 1]],
+            ['bottom right', [0.5, 1, 0, 0.5]],
+            ['bottom left', [1, 0.5, 0.5, 0]],
+            ['top left', [0.5, 0, 1, 0.5]],
+        ];
+        for (const [corner, expected] of corners) {
+            const parsed = parseLinear(`linear-gradient(to ${corner}, red, blue)`, width, height);
+            expectCorners(parsed.corners, expected);
+            expectCorners(parsed.corners, referenceCorners(width, height, parsed.angle));
+        }
+    });
+
+    it.each(ASPECT_RATIOS)('uses the corner angle of the box at %ix%i', (width, height) => {
+        const parsed = parseLinear('linear-gradient(to top right, red, blue)', width, height);
+        expect(parsed.angle).toBeCloseTo(Math.atan2(height, width), 6);
+    });
+
+    it('reads corners in either order', () => {
+        const a = parseLinear('linear-gradient(to right top, red, blue)', 200, 100);
+        const b = parseLinear('linear-gradient(to top right, red, blue)', 200, 100);
+        expect(a.angle).toBeCloseTo(b.angle, 6);
+    });
+
+    it('lays corners out as a square without preserveAspect', () => {
+        const parsed = parseLinear('linear-gradient(to top right, red, blue)', 200, 100, false);
+        expect(parsed.angle).toBeCloseTo(Math.PI / 4, 6);
+        expectCorners(parsed.corners, [0, 0.5, 0.5, 1]);
+    });
+});
+
+// Legacy prefixed syntax names the side the gradient starts from, and its angles point east at 0deg
+// and go counter-clockwise
+describe('prefixed gradients', () => {
+    it.each([
+        ['-webkit-linear-gradient(left, red, blue)', 'linear-gradient(to right, red, blue)'],
+        ['-moz-linear-gradient(top, red, blue)', 'linear-gradient(to bottom, red, blue)'],
+        ['-o-linear-gradient(bottom, red, blue)', 'linear-gradient(to top, red, blue)'],
+        [
+            '-webkit-linear-gradient(top left, red, blue)',
+            'linear-gradient(to bottom right, red, blue)',
+        ],
+        ['-webkit-linear-gradient(0deg, red, blue)', 'linear-gradient(90deg, red, blue)'],
+        ['-webkit-linear-gradient(90deg, red, blue)', 'linear-gradient(0deg, red, blue)'],
+        ['-webkit-linear-gradient(45deg, red, blue)', 'linear-gradient(45deg, red, blue)'],
+        ['-webkit-linear-gradient(180deg, red, blue)', 'linear-gradient(270deg, red, blue)'],
+        ['-webkit-linear-gradient(0.25turn, red, blue)', 'linear-gradient(0deg, red, blue)'],
+        ['-webkit-linear-gradient(0, red, blue)', 'linear-gradient(90deg, red, blue)'],
+        ['-webkit-linear-gradient(red, blue)', 'linear-gradient(red, blue)'],
+    ])('reads %s like %s', (prefixed, standard) => {
+        for (const [width, height] of ASPECT_RATIOS) {
+            const parsed = parseLinear(prefixed, width, height);
+            const expected = parseLinear(standard, width, height);
+            expectCorners(parsed.corners, expected.corners);
+        }
+    });
+});
+
+// At 200x100 a 90deg gradient line is 200px long, so lengths are divided by 200
+describe('parseStops', () => {
+    const viewport = { rootFontSize: 16, width: 1000, height: 500 };
+    const parseStops = (stops: string) =>
+        parseGradientLayers(`linear-gradient(90deg, ${stops})`, 200, 100, true, 20, viewport)[0];
+
+    it.each([
+        ['red, green, blue', [0, 0.5, 1]],
+        ['red 0%, green, blue 40%, white 100%', [0, 0.2, 0.4, 1]],
+        ['red 20%, green, blue', [0.2, 0.6, 1]],
+        // Positions before the largest one so far are moved up to it
+        ['red 50%, blue 20%', [0.5, 0.5]],
+        ['red 50%, green, blue 20%', [0.5, 0.5, 0.5]],
+        ['red 10% 20%, blue', [0.1, 0.2, 1]],
+        ['red 20px, blue calc(10px + 5%)', [0.1, 0.1]],
+        ['red calc(100% - 20px), blue', [0.9, 1]],
+        ['red 1em, green 2rem, blue 10vw, white 20vh', [0.1, 0.16, 0.5, 0.5]],
+        ['red 5vmin, blue 5vmax', [0.125, 0.25]],
+    ])('places %s', (stops, offsets) => {
+        const layer = parseStops(stops);
+        expect(layer.count).toBe(offsets.length);
+        layer.offsets.forEach((offset, i) => expect(offset).toBeCloseTo(offsets[i], 6));
+    });
+
+    it('stores hints as a fraction of the distance between their stops', () => {
+        expect(parseStops('red, blue').hints).toEqual([0.5, 0.5]);
+        expect(parseStops('red, 30%, blue').hints[1]).toBeCloseTo(0.3, 6);
+        expect(parseStops('red 20%, 30%, blue 60%').hints[1]).toBeCloseTo(0.25, 6);
+        // A hint before its first stop is moved up to it
+        expect(parseStops('red 40%, 10%, blue').hints[1]).toBe(0);
+    });
+
+    it('reads stop colors with their alpha', () => {
+        const layer = parseStops('rgb(255 0 0 / 50%), transparent');
+        expect(layer.colors[0][3]).toBeCloseTo(0.5, 2);
+        expect(layer.colors[1][3]).toBe(0);
+    });
+});
+
+describe('compileGradient', () => {
+    const viewport = { rootFontSize: 16, width: 1000, height: 500 };
+
+    it('measures rem and viewport units against the viewport it is given', () => {
+        const spy = vi.spyOn(window, 'getComputedStyle');
+        const compiled = compileGradient('linear-gradient(90deg, red 2rem, blue 10vw, green 50vh)');
+        const [layer] = compiled.resolve(200, 100, true, 16, viewport);
+        expect(spy).not.toHaveBeenCalled();
+        spy.mockRestore();
+        expect(layer.offsets).toEqual([32 / 200, 100 / 200, 250 / 200]);
+    });
+
+    it('lays the gradient out again when the viewport changes', () => {
+        const compiled = compileGradient('linear-gradient(90deg, red 1rem, blue 10vw)');
+        const first = compiled.resolve(200, 100, true, 16, viewport);
+        expect(compiled.resolve(200, 100, true, 16, { ...viewport })).toBe(first);
+
+        const [rem] = compiled.resolve(200, 100, true, 16, { ...viewport, rootFontSize: 20 });
+        expect(rem.offsets[0]).toBeCloseTo(20 / 200, 6);
+        const [vw] = compiled.resolve(200, 100, true, 16, { ...viewport, width: 500 });
+        expect(vw.offsets[1]).toBeCloseTo(50 / 200, 6);
+    });
+});
+
+describe('validateGradient', () => {
+    it('finds nothing wrong with a gradient that can be drawn', () => {
+        expect(validateGradient('linear-gradient(red, blue), radial-gradient(red, blue)')).toEqual(
+            []
+        );
+    });
+
+    it('points at the problem in each layer, relative to the whole list', () => {
+        const gradient =
+            'linear-gradient(red, blue), linear-gradient(red), radial-gradient(red, 5)';
+        const diagnostics = validateGradient(gradient);
+        expect(diagnostics).toHaveLength(2);
+        expect(diagnostics[0].message).toBe('gradient needs at least two color stops');
+        expect(diagnostics[0].position).toBe(gradient.indexOf('linear-gradient(red)') + 16);
+        expect(diagnostics[1].position).toBeGreaterThan(gradient.indexOf('radial-gradient'));
+    });
+
+    it('names CSS features that are valid but not supported', () => {
+        const [diagnostic] = validateGradient('linear-gradient(in oklch, red, blue)');
+        expect(diagnostic.unsupported).toBe('color interpolation method');
+    });
+
+    it('reports an empty gradient', () => {
+        expect(validateGradient('')).toEqual([
+            { position: 0, message: 'gradient needs at least one layer' },
+        ]);
+    });
+});
+
+describe('onParseError', () => {
+    const size = {
+        width: 4,
+        height: 4,
+        devicePixelRatio: 1,
+        fontSize: 16,
+        rootFontSize: 16,
+        viewportWidth: 1000,
+        viewportHeight: 500,
+    };
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    // jsdom has no WebGL, so the loop draws on a stand-in 2D context
+    function createLoop(options: Partial<GrainyGradientOptions>) {
+        vi.stubGlobal(
+            'ImageData',
+            class {
+                constructor(
+                    public data: Uint8ClampedArray,
+                    public width: number,
+                    public height: number
+                ) {}
+            }
+        );
+        const context = { putImageData: vi.fn() };
+        const canvas = document.createElement('canvas');
+        vi.spyOn(canvas, 'getContext').mockImplementation(((type: string) =>
+            type === '2d' ? context : null) as HTMLCanvasElement['getContext']);
+        const onParseError = vi.fn<(error: GradientParseError) => void>();
+        const loop = createRenderLoop(
+            canvas,
+            { gradient: '', fallbackMode: 'canvas2d', paused: true, onParseError, ...options },
+            size
+        );
+        return { loop, context, onParseError };
+    }
+
+    it('reports a gradient that does not parse once, without throwing', () => {
+        const { loop, onParseError } = createLoop({ gradient: 'linear-gradient(red)' });
+        expect(loop.draw()).toBe(false);
+        expect(onParseError).toHaveBeenCalledTimes(1);
+        expect(onParseError.mock.calls[0][0]).toBeInstanceOf(GradientParseError);
+        loop.destroy();
+    });
+
+    it('reports a gradient function that throws', () => {
+        const { loop, onParseError } = createLoop({
+            gradient: () => {
+                throw Error('no gradient today');
+            },
+        });
+        expect(() => loop.draw()).not.toThrow();
+        expect(onParseError).toHaveBeenCalledTimes(1);
+        const [error] = onParseError.mock.calls[0];
+        expect(error).toBeInstanceOf(GradientParseError);
+        expect(error.reason).toBe('no gradient today');
+        loop.destroy();
+    });
+
+    it('reports a gradient function that does not return a string', () => {
+        const { loop, onParseError } = createLoop({
+            gradient: () => undefined as unknown as string,
+        });
+        expect(() => loop.draw()).not.toThrow();
+        expect(onParseError).toHaveBeenCalledTimes(1);
+        expect(onParseError.mock.calls[0][0].reason).toBe('Expected a gradient string');
+        loop.destroy();
+    });
+
+    it('keeps drawing the last valid gradient', () => {
+        let fail = false;
+        const { loop, context, onParseError } = createLoop({
+            gradient: () => {
+                if (fail) throw Error('no gradient today');
+                return 'linear-gradient(red, blue)';
+            },
+        });
+        expect(loop.draw()).toBe(true);
+        fail = true;
+        expect(loop.draw()).toBe(true);
+        expect(context.putImageData).toHaveBeenCalledTimes(2);
+        expect(onParseError).toHaveBeenCalledTimes(1);
+        loop.destroy();
+    });
+
+    it('reports keyframes that can not be mixed', () => {
+        const { loop, onParseError } = createLoop({
+            keyframes: [
+                { gradient: 'linear-gradient(red, blue)' },
+                { gradient: 'radial-gradient(red, blue)' },
+            ],
+        });
+        expect(() => loop.draw()).not.toThrow();
+        expect(onParseError).toHaveBeenCalledTimes(1);
+        loop.destroy();
+    });
+});
@@ -1,9 +1,39 @@
-import type { AngularNode, ColorStop, DirectionalNode, LinearGradientNode } from 'gradient-parser';
 import seedrandom from 'seedrandom';
+import type {
+    AngleNode,
+    CalcValue,
+    DirectionalNode,
+    DistanceNode,
+    ExtentKeyword,
+    GradientNode,
+    LengthUnit,
+    PositionNode,
+    RadialGradientNode,
+    RepeatingRadialGradientNode,
+    StopListNode,
+} from './parser';
+import { GradientParseError, parseGradientList, splitGradientList } from './parser';
 import Values from 'values.js';
 
 export const SHIMMER_FACTOR = 1.0 / 1000.0 / 60.0 / 10.0;
 
+export type NoiseSeed = number | string;
+
+export type GradientBlendMode = 'normal' | 'multiply' | 'screen' | 'overlay' | 'darken' | 'lighten';
+
+/** Blend modes in the order `u_blend` refers to them. */
+export const BLEND_MODES: GradientBlendMode[] = [
+    'normal',
+    'multiply',
+    'screen',
+    'overlay',
+    'darken',
+    'lighten',
+];
+
+/** Most color stops a single gradient layer can have, the fragment shader's loop over the stops ends there. */
+export const MAX_STOPS = 256;
+
 export const VERTEX_SHADER = `
 attribute vec2 a_position;
 varying vec2 v_texcoord;
@@ -21,41 +51,159 @@ void main() {
 `;
 
 export const FRAGMENT_SHADER = `
+#ifdef GL_FRAGMENT_PRECISION_HIGH
+precision highp float;
+#else
 precision mediump float;
+#endif
 
 uniform sampler2D u_noise_texture;
 uniform vec2 u_scale;
+// Ordered and blue noise are looked up one texel per pixel instead of being stretched
+uniform bool u_noise_aligned;
+uniform float u_noise_size;
+uniform float u_grain_intensity;
+uniform int u_grain_mode;
 
-uniform vec3 u_colors[8];
-uniform float u_offsets[8];
+// Stop colors in the first row, offsets and hints split over two bytes each in the second
+uniform sampler2D u_stops;
+uniform int u_stop_count;
+uniform vec2 u_offset_range;
 
 uniform float u_tex_offset;
 
+uniform int u_shape;
+uniform bool u_repeating;
+uniform vec2 u_center;
+uniform vec2 u_radius;
+uniform float u_angle;
+
+uniform sampler2D u_backdrop;
+// Layer targets can be larger than the canvas, so the backdrop is read by pixel
+uniform vec2 u_backdrop_size;
+uniform int u_blend;
+
 varying vec2 v_texcoord;
 varying float v_factor;
 
+// Stops are stored straight and premultiplied here so they interpolate like CSS
+vec4 stopColor(int index) {
+    vec4 color = texture2D(u_stops, vec2((float(index) + 0.5) / float(u_stop_count), 0.25));
+    return vec4(color.rgb * color.a, color.a);
+}
+
+float stopOffset(int index) {
+    vec4 encoded = texture2D(u_stops, vec2((float(index) + 0.5) / float(u_stop_count), 0.75));
+    float t = (encoded.r * 65280.0 + encoded.g * 255.0) / 65535.0;
+    return mix(u_offset_range.x, u_offset_range.y, t);
+}
+
+float stopHint(int index) {
+    vec4 encoded = texture2D(u_stops, vec2((float(index) + 0.5) / float(u_stop_count), 0.75));
+    return (encoded.b * 65280.0 + encoded.a * 255.0) / 65535.0;
+}
+
+vec3 blend(vec3 backdrop, vec3 source) {
+    if (u_blend == 1) return backdrop * source;
+    if (u_blend == 2) return backdrop + source - backdrop * source;
+    if (u_blend == 3) {
+        vec3 multiply = 2.0 * backdrop * source;
+        vec3 screen = 1.0 - 2.0 * (1.0 - backdrop) * (1.0 - source);
+        return mix(multiply, screen, step(0.5, backdrop));
+    }
+    if (u_blend == 4) return min(backdrop, source);
+    if (u_blend == 5) return max(backdrop, source);
+    return source;
+}
+
 void main() {
-    vec3 color = vec3(0);
-    float noise = texture2D(u_noise_texture, v_texcoord * u_scale + vec2(1) * u_tex_offset).r;
-    if (v_factor < u_offsets[0]) {
-        color = u_colors[0];
-    }
-    ${new Array(7)
-        .fill('')
-        .map(
-            (_, i) => `
-    if (v_factor >= u_offsets[${i}] && v_factor < u_offsets[${i + 1}]) {
-        float scaledFactor = (v_factor - u_offsets[${i}]) / (u_offsets[${i + 1}] - u_offsets[${i}]);
-        if (scaledFactor < noise) {
-            color = u_colors[${i}];
-        } else {
-            color = u_colors[${i + 1}];
+    vec4 color = vec4(0);
+    float noise;
+    if (u_noise_aligned) {
+        vec2 texel = floor(gl_FragCoord.xy) + floor(u_tex_offset * u_noise_size);
+        noise = texture2D(u_noise_texture, (mod(texel, u_noise_size) + 0.5) / u_noise_size).r;
+    } else {
+        noise = texture2D(u_noise_texture, v_texcoord * u_scale + vec2(1) * u_tex_offset).r;
+    }
+
+    // Linear progress is affine so it can be interpolated from the corners,
+    // radial progress has to be computed for every fragment.
+    float factor = v_factor;
+    if (u_shape == 1) {
+        vec2 position = vec2(v_texcoord.x, 1.0 - v_texcoord.y);
+        factor = length((position - u_center) / u_radius);
+    } else if (u_shape == 2) {
+        // Clockwise from the top, starting at the "from" angle
+        vec2 delta = (vec2(v_texcoord.x, 1.0 - v_texcoord.y) - u_center) / u_radius;
+        factor = fract((atan(delta.x, -delta.y) - u_angle) / 6.28318530718);
+    }
+
+    // Repeating gradients tile the stretch between the first and last stop
+    float span = u_offset_range.y - u_offset_range.x;
+    if (u_repeating && span > 0.0) {
+        factor = u_offset_range.x + mod(factor - u_offset_range.x, span);
+    }
+
+    // Find the first stop past the current progress
+    int upper = -1;
+    for (int i = 0; i < ${MAX_STOPS}; i++) {
+        if (i >= u_stop_count) break;
+        if (factor < stopOffset(i)) {
+            upper = i;
+            break;
+        }
+    }
+
+    vec4 lowerColor;
+    vec4 upperColor;
+    float scaledFactor = 0.0;
+    if (upper == 0) {
+        lowerColor = stopColor(0);
+        upperColor = lowerColor;
+    } else if (upper < 0) {
+        lowerColor = stopColor(u_stop_count - 1);
+        upperColor = lowerColor;
+    } else {
+        float lower = stopOffset(upper - 1);
+        scaledFactor = (factor - lower) / (stopOffset(upper) - lower);
+
+        // Move the halfway point to the transition hint, like CSS does
+        float hint = stopHint(upper);
+        if (hint <= 0.0) {
+            scaledFactor = 1.0;
+        } else if (hint >= 1.0) {
+            scaledFactor = 0.0;
+        } else if (abs(hint - 0.5) > 0.0001) {
+            scaledFactor = pow(scaledFactor, log(0.5) / log(hint));
         }
+        lowerColor = stopColor(upper - 1);
+        upperColor = stopColor(upper);
+    }
+
+    vec4 smoothColor = mix(lowerColor, upperColor, scaledFactor);
+    if (u_grain_mode == 1) {
+        // Film grain lightens and darkens a smooth gradient
+        vec3 grain = vec3((noise - 0.5) * 0.5 * u_grain_intensity * smoothColor.a);
+        color = vec4(clamp(smoothColor.rgb + grain, 0.0, smoothColor.a), smoothColor.a);
+    } else {
+        vec4 ditheredColor = scaledFactor < noise ? lowerColor : upperColor;
+        color = mix(smoothColor, ditheredColor, u_grain_intensity);
+    }
+
+    if (u_blend < 0) {
+        gl_FragColor = color;
+        return;
     }
-`
-        )
-        .join('\n')}
-    gl_FragColor = vec4(color, 1);
+
+    // Composite over the premultiplied layers below, blending where they are opaque
+    vec4 backdrop = texture2D(u_backdrop, gl_FragCoord.xy / u_backdrop_size);
+    vec3 backdropColor = backdrop.a > 0.0 ? backdrop.rgb / backdrop.a : vec3(0);
+    vec3 sourceColor = color.a > 0.0 ? color.rgb / color.a : vec3(0);
+    vec3 blended = mix(sourceColor, blend(backdropColor, sourceColor), backdrop.a);
+    gl_FragColor = vec4(
+        blended * color.a + backdrop.rgb * (1.0 - color.a),
+        color.a + backdrop.a * (1.0 - color.a)
+    );
 }
 `;
 
@@ -63,161 +211,779 @@ function mod(n: number, d: number) {
     return ((n % d) + d) % d;
 }
 
-export function createNoiseSource(seed: string | number, size: number): ImageData {
+/**
+ * Seed used for the noise of a gradient layer. A list of seeds repeats across the layers,
+ * a single seed is used as is for the first layer and varied for the others so they don't share grain.
+ */
+export function getLayerSeed(seed: NoiseSeed | NoiseSeed[], layer: number): NoiseSeed {
+    if (Array.isArray(seed)) return seed.length ? seed[layer % seed.length] : 0;
+    return layer === 0 ? seed : `${seed}-${layer}`;
+}
+
+export type GrainMode = 'dither' | 'film';
+
+/** What is shown when WebGL isn't available: a smooth CSS gradient, grain drawn on the CPU, or nothing. */
+export type FallbackMode = 'css' | 'canvas2d' | 'none';
+
+/** Whether to stop animating when the user prefers reduced motion. */
+export type ReducedMotion = 'respect' | 'ignore';
+
+export type NoiseType = 'white' | 'blue' | 'bayer' | 'bayer2' | 'bayer4' | 'bayer8';
+
+/** Whether the noise has to be sampled one texel per pixel to keep its pattern intact. */
+export function isPixelAlignedNoise(type: NoiseType): boolean {
+    return type !== 'white';
+}
+
+function getBayerOrder(type: NoiseType) {
+    if (type === 'bayer2') return 2;
+    if (type === 'bayer4') return 4;
+    return 8;
+}
+
+/** Side length of the texture `createNoiseSource` generates, Bayer matrices only need to be stored once. */
+export function getNoiseSourceSize(type: NoiseType, size: number): number {
+    return type === 'white' || type === 'blue' ? size : getBayerOrder(type);
+}
+
+function createWhiteNoise(rng: () => number, size: number) {
+    return new Array(size * size).fill(null).map(() => Math.floor(rng() * 255));
+}
+
+function blurWrapped(values: Float32Array, size: number, kernel: number[], horizontal: boolean) {
+    const radius = (kernel.length - 1) / 2;
+    const result = new Float32Array(values.length);
+    for (let y = 0; y < size; y += 1) {
+        for (let x = 0; x < size; x += 1) {
+            let sum = 0;
+            for (let k = -radius; k <= radius; k += 1) {
+                const sx = horizontal ? mod(x + k, size) : x;
+                const sy = horizontal ? y : mod(y + k, size);
+                sum += values[sy * size + sx] * kernel[k + radius];
+            }
+            result[y * size + x] = sum;
+        }
+    }
+    return result;
+}
+
+/**
+ * Approximates blue noise by repeatedly removing the low frequencies of seeded white noise and
+ * ranking the result back into an even distribution. Blurs wrap around so the texture tiles.
+ */
+function createBlueNoise(rng: () => number, size: number) {
+    const count = size * size;
+    const sigma = 1.0;
+    const kernel = [-3, -2, -1, 0, 1, 2, 3].map((x) => Math.exp(-(x * x) / (2 * sigma * sigma)));
+    const kernelSum = kernel.reduce((a, b) => a + b, 0);
+    kernel.forEach((value, i) => (kernel[i] = value / kernelSum));
+
+    let values = Float32Array.from({ length: count }, () => rng());
+    const order = Array.from({ length: count }, (_, i) => i);
+    for (let iteration = 0; iteration < 4; iteration += 1) {
+        const blurred = blurWrapped(blurWrapped(values, size, kernel, true), size, kernel, false);
+        const highPass = values.map((value, i) => value - blurred[i]);
+        order.sort((a, b) => highPass[a] - highPass[b]);
+
+        values = new Float32Array(count);
+        order.forEach((index, rank) => (values[index] = rank / count));
+    }
+    return Array.from(values, (value) => Math.floor(value * 256));
+}
+
+function createBayerMatrix(order: number): number[] {
+    let matrix = [0];
+    for (let n = 1; n < order; n *= 2) {
+        const next = new Array<number>(n * 2 * n * 2);
+        for (let y = 0; y < n; y += 1) {
+            for (let x = 0; x < n; x += 1) {
+                const value = matrix[y * n + x] * 4;
+                next[y * 2 * n + x] = value;
+                next[y * 2 * n + x + n] = value + 2;
+                next[(y + n) * 2 * n + x] = value + 3;
+                next[(y + n) * 2 * n + x + n] = value + 1;
+            }
+        }
+        matrix = next;
+    }
+    return matrix;
+}
+
+/**
+ * Ordered dither thresholds. The seed shifts the matrix so stacked layers don't line up.
+ */
+function createBayerNoise(rng: () => number, order: number) {
+    const matrix = createBayerMatrix(order);
+    const [shiftX, shiftY] = [Math.floor(rng() * order), Math.floor(rng() * order)];
+    return matrix.map((_, i) => {
+        const [x, y] = [
+            mod((i % order) + shiftX, order),
+            mod(Math.floor(i / order) + shiftY, order),
+        ];
+        return Math.floor(((matrix[y * order + x] + 0.5) / (order * order)) * 256);
+    });
+}
+
+/**
+ * Grain values from 0 to 255, one per texel of a `getNoiseSourceSize` square, row by row.
+ */
+export function createNoiseValues(
+    seed: NoiseSeed,
+    size: number,
+    type: NoiseType = 'white'
+): number[] {
     const rng = seedrandom(seed.toString());
-    const dataArray = new Uint8ClampedArray(
-        new Array(size * size).fill(null).flatMap(() => {
-            const val = Math.floor(rng() * 255);
-            return [val, val, val, 255];
-        })
-    );
-    return new ImageData(dataArray, size, size);
+    const sourceSize = getNoiseSourceSize(type, size);
+    if (type === 'white') return createWhiteNoise(rng, sourceSize);
+    if (type === 'blue') return createBlueNoise(rng, sourceSize);
+    return createBayerNoise(rng, sourceSize);
 }
 
-interface ParsedGradient {
+export function createNoiseSource(
+    seed: NoiseSeed,
+    size: number,
+    type: NoiseType = 'white'
+): ImageData {
+    const sourceSize = getNoiseSourceSize(type, size);
+    const values = createNoiseValues(seed, size, type);
+    const dataArray = new Uint8ClampedArray(values.flatMap((val) => [val, val, val, 255]));
+    return new ImageData(dataArray, sourceSize, sourceSize);
+}
+
+export type GradientShape = 'linear' | 'radial' | 'conic';
+
+export interface ParsedGradient {
+    /** How progress through the gradient is computed for each pixel. */
+    shape: GradientShape;
+    /** Whether the stops repeat past the first and last one. */
+    repeating: boolean;
     /** The number of stops in the gradient. */
     count: number;
     /** The color of each stop. */
-    colors: [number, number, number][];
+    colors: [number, number, number, number][];
     /** The offset of each stop. */
     offsets: number[];
+    /** Where the colors of each stop and the one before it are mixed evenly, 0.5 is halfway. */
+    hints: number[];
     /** The progress through the gradient at each corner of the quad.
-     *  In the order, top left, top right, bottom left, bottom right.
+     *  In the order of the quad's vertices: bottom left, bottom right, top left, top right.
      * */
     corners: [number, number, number, number];
+    /** Center of a radial gradient, relative to the size of the canvas with the origin at the top left. */
+    center: [number, number];
+    /** Horizontal and vertical radii of a radial gradient, relative to the size of the canvas.
+     *  Conic gradients use one pixel so that angles are measured in pixel space.
+     * */
+    radius: [number, number];
+    /** Direction of a linear gradient or starting angle of a conic gradient in radians, clockwise from the top. */
+    angle: number;
 }
 
-function parseAngle(orientation: DirectionalNode | AngularNode | undefined) {
-    if (!orientation) return (Math.PI * 3) / 2;
-    if (orientation.type === 'directional') {
-        switch (orientation.value) {
-            case 'left':
-                return Math.PI;
-            case 'top':
-                return Math.PI / 2;
-            case 'bottom':
-                return (Math.PI * 3) / 2;
-            case 'right':
-                return 0;
-            case 'left top':
-                return (Math.PI * 3) / 4;
-            case 'top left':
-                return (Math.PI * 3) / 4;
-            case 'left bottom':
-                return (Math.PI * 5) / 4;
-            case 'bottom left':
-                return (Math.PI * 5) / 4;
-            case 'right top':
-                return Math.PI / 4;
-            case 'top right':
-                return Math.PI / 4;
-            case 'right bottom':
-                return (Math.PI * 7) / 4;
-            case 'bottom right':
-                return (Math.PI * 7) / 4;
-        }
-    } else {
-        try {
-            return (parseInt(orientation.value) / 180) * Math.PI + (Math.PI * 3) / 2;
-        } catch (_) {
+/**
+ * The angle of a linear gradient in radians, clockwise from "to top" like CSS.
+ * Corners depend on the box: the gradient line is perpendicular to the diagonal between the two neighbouring corners.
+ */
+function parseAngle(
+    orientation: DirectionalNode | AngleNode | undefined,
+    width: number,
+    height: number
+): number {
+    if (!orientation) return Math.PI;
+    if (orientation.type !== 'directional') return parseAngleValue(orientation);
+
+    const corner = Math.atan2(height, width);
+    switch (orientation.value) {
+        case 'top':
             return 0;
-        }
+        case 'right':
+            return Math.PI / 2;
+        case 'bottom':
+            return Math.PI;
+        case 'left':
+            return (Math.PI * 3) / 2;
+        case 'top right':
+            return corner;
+        case 'bottom right':
+            return Math.PI - corner;
+        case 'bottom left':
+            return Math.PI + corner;
+        case 'top left':
+            return Math.PI * 2 - corner;
+    }
+}
+
+/** Length of the gradient line of a linear gradient, so that its ends touch the farthest corners. */
+export function gradientLineLength(width: number, height: number, angle: number): number {
+    return Math.abs(width * Math.sin(angle)) + Math.abs(height * Math.cos(angle));
+}
+
+/**
+ * Progress through a linear gradient at a point, measured from the top left corner with y pointing down.
+ */
+export function gradientLineProgress(
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    angle: number
+): number {
+    const length = Math.max(gradientLineLength(width, height, angle), 1e-6);
+    const along = (x - width / 2) * Math.sin(angle) - (y - height / 2) * Math.cos(angle);
+    return along / length + 0.5;
+}
+
+/** Progress through a linear gradient at each corner of the quad, see `ParsedGradient.corners`. */
+export function getLinearCorners(
+    angle: number,
+    width: number,
+    height: number,
+    preserveAspect: boolean
+): [number, number, number, number] {
+    // Without preserving the aspect the gradient is laid out as if the box were square
+    const [iw, ih] = preserveAspect ? [Math.max(width, 1), Math.max(height, 1)] : [1, 1];
+    return [
+        gradientLineProgress(0, ih, iw, ih, angle),
+        gradientLineProgress(iw, ih, iw, ih, angle),
+        gradientLineProgress(0, 0, iw, ih, angle),
+        gradientLineProgress(iw, 0, iw, ih, angle),
+    ];
+}
+
+/**
+ * Throws a `RangeError` if any layer has more stops than the shader loops over, before anything is drawn.
+ */
+export function checkStopCount(parsed: ParsedGradient[]): void {
+    const count = Math.max(...parsed.map((layer) => layer.count));
+    if (count > MAX_STOPS) {
+        throw new RangeError(
+            `gradient has ${count} color stops but the shader only loops over ${MAX_STOPS} per layer`
+        );
     }
 }
 
-function gradientInfluence(width: number, height: number, angle: number) {
-    const aspectMagnitude = Math.max(Math.sqrt(width * width + height * height), 1);
-    const [aspectX, aspectY] = [width / aspectMagnitude, height / aspectMagnitude];
-    const [dirX, dirY] = [Math.cos(angle), Math.sin(angle)];
-    const dotProduct = aspectX * dirX + aspectY * dirY;
-    return Math.min(Math.max(dotProduct, -1.0), 1.0) * 0.5 + 0.5;
+/**
+ * Packs the stops of a gradient into a two row RGBA texture, colors in the first row and offsets
+ * and hints in the second. Offsets are stored relative to `range` with 16 bits of precision,
+ * hints with 16 bits as well.
+ */
+export function packStops(parsed: ParsedGradient): { data: Uint8Array; range: [number, number] } {
+    const { count, colors, offsets, hints } = parsed;
+    const range: [number, number] = [Math.min(...offsets), Math.max(...offsets)];
+    const span = range[1] - range[0];
+
+    const data = new Uint8Array(count * 2 * 4);
+    for (let i = 0; i < count; i += 1) {
+        data[i * 4 + 0] = Math.round(colors[i][0] * 255);
+        data[i * 4 + 1] = Math.round(colors[i][1] * 255);
+        data[i * 4 + 2] = Math.round(colors[i][2] * 255);
+        data[i * 4 + 3] = Math.round(colors[i][3] * 255);
+
+        const encoded = Math.round((span > 0 ? (offsets[i] - range[0]) / span : 0) * 65535);
+        data[(count + i) * 4 + 0] = encoded >> 8;
+        data[(count + i) * 4 + 1] = encoded & 0xff;
+
+        const hint = Math.round(hints[i] * 65535);
+        data[(count + i) * 4 + 2] = hint >> 8;
+        data[(count + i) * 4 + 3] = hint & 0xff;
+    }
+    return { data, range };
 }
 
 interface ParsedStops {
     count: number;
-    colors: [number, number, number][];
+    colors: [number, number, number, number][];
     offsets: number[];
+    hints: number[];
 }
 
-function parseStopColor(stop: ColorStop): [number, number, number] {
-    let colorString;
-    if (stop.type === 'literal') {
-        colorString = stop.value;
-    } else if (stop.type === 'hex') {
-        colorString = `#${stop.value}`;
-    } else if ((stop.type as unknown as string) === 'hsl') {
-        // gradient-parser still able to return hsl values even if not in type declarations
-        colorString = `hsl(${stop.value[0]}deg, ${stop.value[1]}%, ${stop.value[2]}%)`;
-    } else {
-        colorString = `${stop.type}(${stop.value.map((val) => val ?? '').join(', ')})`;
+// Parsing colors is slow, and animations keep coming back to the same few
+const stopColors = new Map<string, [number, number, number, number]>();
+const MAX_STOP_COLORS = 1024;
+
+function parseStopColor(color: string): [number, number, number, number] {
+    let parsed = stopColors.get(color);
+    if (!parsed) {
+        const { rgb, alpha } = new Values(color);
+        parsed = [rgb[0] / 255, rgb[1] / 255, rgb[2] / 255, alpha];
+        if (stopColors.size >= MAX_STOP_COLORS) stopColors.clear();
+        stopColors.set(color, parsed);
+    }
+    return parsed;
+}
+
+// Valid CSS colors that values.js can't read
+const UNSUPPORTED_COLORS =
+    /^(?:(lab|lch|oklab|oklch|color|color-mix|light-dark|var|env|attr)\s*\(|(currentcolor)$)/i;
+
+/** Parses a color ahead of drawing, so that a bad one is reported like the rest of the gradient. */
+function checkStopColor(gradient: string, color: string) {
+    try {
+        parseStopColor(color);
+    } catch {
+        const captures = UNSUPPORTED_COLORS.exec(color);
+        const unsupported = captures?.[1] ? `${captures[1].toLowerCase()}()` : captures?.[2];
+        const position = Math.max(gradient.indexOf(color), 0);
+        throw new GradientParseError(gradient, `Invalid color ${color}`, position, unsupported);
     }
-    const { rgb } = new Values(colorString);
-    return [rgb[0] / 255, rgb[1] / 255, rgb[2] / 255];
 }
 
-function getRemInPx() {
+function parseAngleValue(angle: AngleNode) {
+    const value = parseFloat(angle.value);
+    if (!Number.isFinite(value)) return 0;
+    switch (angle.type) {
+        case 'deg':
+            return (value / 180) * Math.PI;
+        case 'grad':
+            return (value / 200) * Math.PI;
+        case 'rad':
+            return value;
+        case 'turn':
+            return value * Math.PI * 2;
+    }
+}
+
+/** Font size of an element in pixels, the root element by default so that it matches `rem`. */
+export function getFontSizeInPx(element?: Element): number {
     if (typeof window === 'undefined' || typeof document === 'undefined') {
         return 16;
     }
-    const rootElement = document.documentElement;
-    const computedStyle = window.getComputedStyle(rootElement);
+    const computedStyle = window.getComputedStyle(element ?? document.documentElement);
     const fontSizePx = parseFloat(computedStyle.fontSize);
     return Number.isFinite(fontSizePx) ? fontSizePx : 16;
 }
 
-function parseStopPosition(stop: ColorStop, index: number, count: number, diagonal: number) {
-    const len = stop.length;
-    const maxIndex = Math.max(count - 1, 1);
-    if (!len) return index / maxIndex;
-    if (len.type === 'px') {
-        try {
-            return parseInt(len.value) / diagonal;
-        } catch (_) {
-            return index / maxIndex;
-        }
-    } else if (len.type === 'em') {
-        try {
-            return (getRemInPx() * parseInt(len.value)) / diagonal;
-        } catch (_) {
-            return index / maxIndex;
-        }
-    } else {
-        try {
-            return parseInt(len.value) / 100;
-        } catch (_) {
-            return index / maxIndex;
+const VARIABLE = /var\(|currentcolor/i;
+const CURRENT_COLOR = /(?<![\w-])currentcolor(?![\w-])/gi;
+
+/** Index of the `)` closing the `(` at `open`, or -1 if it isn't closed. */
+function findClosingParen(input: string, open: number): number {
+    let depth = 0;
+    for (let i = open; i < input.length; i += 1) {
+        if (input[i] === '(') depth += 1;
+        if (input[i] === ')') depth -= 1;
+        if (depth === 0) return i;
+    }
+    return -1;
+}
+
+/**
+ * Replaces `var()` and `currentColor` in a gradient with the values `getValue` reads for them,
+ * `color` for `currentColor`. Variables without a value or fallback are left in, so that they fail to parse.
+ */
+export function resolveGradientVariables(
+    gradient: string,
+    getValue: (property: string) => string
+): string {
+    if (!VARIABLE.test(gradient)) return gradient;
+    const lower = gradient.toLowerCase();
+    let resolved = '';
+    let index = 0;
+    for (
+        let start = lower.indexOf('var(', index);
+        start >= 0;
+        start = lower.indexOf('var(', index)
+    ) {
+        const end = findClosingParen(gradient, start + 3);
+        if (end < 0) break;
+        const inner = gradient.slice(start + 4, end);
+        let comma = -1;
+        for (let i = 0, depth = 0; i < inner.length && comma < 0; i += 1) {
+            if (inner[i] === '(') depth += 1;
+            if (inner[i] === ')') depth -= 1;
+            if (inner[i] === ',' && depth === 0) comma = i;
         }
+        const name = (comma < 0 ? inner : inner.slice(0, comma)).trim();
+        const fallback = comma < 0 ? '' : inner.slice(comma + 1).trim();
+        const value =
+            (name.startsWith('--') ? getValue(name).trim() : '') ||
+            resolveGradientVariables(fallback, getValue);
+        resolved += gradient.slice(index, start) + (value || gradient.slice(start, end + 1));
+        index = end + 1;
     }
+    resolved += gradient.slice(index);
+    // Custom properties can hold currentColor too, so it is replaced after them
+    return resolved.replace(CURRENT_COLOR, (match) => getValue('color').trim() || match);
+}
+
+/** The root font size and viewport size in pixels, which `rem` and viewport units are measured against. */
+export interface ViewportMetrics {
+    rootFontSize: number;
+    width: number;
+    height: number;
 }
 
-function parseStops(stops: ColorStop[], diagonal: number): ParsedStops {
+/** Measures the viewport. Workers have no window to measure, so it is sent to them in `RenderSize`. */
+export function getViewportMetrics(): ViewportMetrics {
+    if (typeof window === 'undefined') return { rootFontSize: 16, width: 0, height: 0 };
     return {
-        count: stops.length,
-        colors: stops.map(parseStopColor),
-        offsets: stops.map((stop, index) => parseStopPosition(stop, index, stops.length, diagonal)),
+        rootFontSize: getFontSizeInPx(),
+        width: window.innerWidth,
+        height: window.innerHeight,
     };
 }
 
+const ABSOLUTE_UNITS: Partial<Record<LengthUnit, number>> = {
+    px: 1,
+    cm: 96 / 2.54,
+    mm: 96 / 25.4,
+    q: 96 / 101.6,
+    in: 96,
+    pt: 96 / 72,
+    pc: 16,
+};
+
+/**
+ * Resolves a length, angle or `calc()` to pixels, or radians for angles.
+ * Percentages are relative to `reference`, `em` to `fontSize`, `rem` and viewport units to `viewport`.
+ */
+function resolveDistance(
+    node: DistanceNode | CalcValue,
+    reference: number,
+    fontSize: number,
+    viewport: ViewportMetrics
+): number {
+    if (node.type === 'calc') return resolveDistance(node.value, reference, fontSize, viewport);
+    if (node.type === 'operation') {
+        const left = resolveDistance(node.left, reference, fontSize, viewport);
+        const right = resolveDistance(node.right, reference, fontSize, viewport);
+        switch (node.operator) {
+            case '+':
+                return left + right;
+            case '-':
+                return left - right;
+            case '*':
+                return left * right;
+            case '/':
+                return right === 0 ? 0 : left / right;
+        }
+    }
+    if (isAngleNode(node)) return parseAngleValue(node);
+
+    const value = parseFloat(node.value);
+    if (!Number.isFinite(value)) return 0;
+    if (node.type === 'number') return value;
+    if (node.type === '%') return (value / 100) * reference;
+    if (node.type === 'em') return value * fontSize;
+    if (node.type === 'rem') return value * viewport.rootFontSize;
+
+    const absolute = ABSOLUTE_UNITS[node.type];
+    if (absolute) return value * absolute;
+
+    const { width: vw, height: vh } = viewport;
+    const length = {
+        vw,
+        vh,
+        vmin: Math.min(vw, vh),
+        vmax: Math.max(vw, vh),
+    }[node.type as 'vw' | 'vh' | 'vmin' | 'vmax'];
+    return (value / 100) * length;
+}
+
+function isAngleNode(node: { type: string }): node is AngleNode {
+    return (
+        node.type === 'deg' || node.type === 'grad' || node.type === 'rad' || node.type === 'turn'
+    );
+}
+
+/**
+ * Turns a stop list into stop offsets as a fraction of `length`, fixing them up the way CSS does:
+ * missing ends go to 0 and 1, a stop is never placed before an earlier one, and stops without
+ * a position are spread evenly between their neighbours.
+ */
+function parseStops(
+    stops: StopListNode[],
+    length: number,
+    fontSize: number,
+    viewport: ViewportMetrics
+): ParsedStops {
+    const colors: [number, number, number, number][] = [];
+    const offsets: (number | undefined)[] = [];
+    const hintOffsets: (number | undefined)[] = [];
+
+    let hint: number | undefined;
+    for (const stop of stops) {
+        const offset =
+            stop.length && resolveDistance(stop.length, length, fontSize, viewport) / length;
+        if (stop.type === 'hint') {
+            hint = offset;
+            continue;
+        }
+        colors.push(parseStopColor(stop.color));
+        offsets.push(offset);
+        hintOffsets.push(hint);
+        hint = undefined;
+    }
+
+    const count = colors.length;
+    offsets[0] ??= 0;
+    offsets[count - 1] ??= 1;
+
+    let max = -Infinity;
+    for (let i = 0; i < count; i += 1) {
+        if (hintOffsets[i] !== undefined) hintOffsets[i] = max = Math.max(hintOffsets[i]!, max);
+        if (offsets[i] !== undefined) offsets[i] = max = Math.max(offsets[i]!, max);
+    }
+
+    for (let i = 1; i < count; i += 1) {
+        if (offsets[i] !== undefined) continue;
+        // A run of stops without positions, between two stops that have one
+        const start = offsets[i - 1]!;
+        let end = i;
+        while (offsets[end] === undefined) end += 1;
+        for (let j = i; j < end; j += 1) {
+            offsets[j] = start + ((offsets[end]! - start) * (j - i + 1)) / (end - i + 1);
+        }
+    }
+
+    // Hints are stored as a fraction of the distance between their stops
+    const hints = hintOffsets.map((hintOffset, i) => {
+        if (hintOffset === undefined || i === 0) return 0.5;
+        const [lower, upper] = [offsets[i - 1]!, offsets[i]!];
+        if (upper <= lower) return 0.5;
+        return Math.min(Math.max((hintOffset - lower) / (upper - lower), 0), 1);
+    });
+
+    return { count, colors, offsets: offsets as number[], hints };
+}
+
+function parsePosition(
+    position: PositionNode | undefined,
+    width: number,
+    height: number,
+    fontSize: number,
+    viewport: ViewportMetrics
+): [number, number] {
+    if (!position) return [width / 2, height / 2];
+    return [
+        resolveDistance(position.value.x, width, fontSize, viewport),
+        resolveDistance(position.value.y, height, fontSize, viewport),
+    ];
+}
+
+function parseRadialExtent(
+    extent: ExtentKeyword,
+    circle: boolean,
+    center: [number, number],
+    width: number,
+    height: number
+): [number, number] {
+    const [cx, cy] = center;
+    const [left, right, top, bottom] = [
+        Math.abs(cx),
+        Math.abs(width - cx),
+        Math.abs(cy),
+        Math.abs(height - cy),
+    ];
+
+    const closest = extent === 'closest-side' || extent === 'closest-corner';
+    const sideX = closest ? Math.min(left, right) : Math.max(left, right);
+    const sideY = closest ? Math.min(top, bottom) : Math.max(top, bottom);
+
+    if (extent === 'closest-side' || extent === 'farthest-side') {
+        if (circle) {
+            const side = closest ? Math.min(sideX, sideY) : Math.max(sideX, sideY);
+            return [side, side];
+        }
+        return [sideX, sideY];
+    }
+
+    // Corner extents pass through the corner, keeping the aspect ratio of the matching side extent
+    const corner = Math.sqrt(sideX * sideX + sideY * sideY);
+    if (circle || sideX === 0 || sideY === 0) return [corner, corner];
+    return [sideX * Math.SQRT2, sideY * Math.SQRT2];
+}
+
+function parseRadialShape(
+    gradient: RadialGradientNode | RepeatingRadialGradientNode,
+    width: number,
+    height: number,
+    fontSize: number,
+    viewport: ViewportMetrics
+): { center: [number, number]; radius: [number, number] } {
+    const { shape, size, at } = gradient.orientation;
+    const center = parsePosition(at, width, height, fontSize, viewport);
+    const circle = shape === 'circle';
+
+    if (typeof size === 'string') {
+        return { center, radius: parseRadialExtent(size, circle, center, width, height) };
+    }
+    const rx = resolveDistance(size[0], width, fontSize, viewport);
+    const ry = circle ? rx : resolveDistance(size[1] ?? size[0], height, fontSize, viewport);
+    return { center, radius: [rx, ry] };
+}
+
 export function parseGradient(
-    gradient: LinearGradientNode,
+    gradient: GradientNode,
     width: number,
     height: number,
-    preserveAspect = false
+    preserveAspect = false,
+    fontSize = getFontSizeInPx(),
+    viewport = getViewportMetrics()
 ): ParsedGradient {
-    const angle = mod(parseAngle(gradient.orientation), Math.PI * 2);
-    const [iw, ih] = preserveAspect ? [width, height] : [1, 1];
+    const [w, h] = [Math.max(width, 1), Math.max(height, 1)];
+    const repeating = gradient.type.startsWith('repeating-');
+
+    if (gradient.type === 'conic-gradient' || gradient.type === 'repeating-conic-gradient') {
+        const center = parsePosition(gradient.orientation?.at, w, h, fontSize, viewport);
+        const from = gradient.orientation?.from;
+        return {
+            shape: 'conic',
+            repeating,
+            ...parseStops(gradient.colorStops, Math.PI * 2, fontSize, viewport),
+            corners: [0, 0, 0, 0],
+            center: [center[0] / w, center[1] / h],
+            radius: [1 / w, 1 / h],
+            angle: from ? parseAngleValue(from) : 0,
+        };
+    }
+
+    if (gradient.type === 'radial-gradient' || gradient.type === 'repeating-radial-gradient') {
+        const { center, radius } = parseRadialShape(gradient, w, h, fontSize, viewport);
+        const [rx, ry] = [Math.max(radius[0], 1e-3), Math.max(radius[1], 1e-3)];
+        return {
+            shape: 'radial',
+            repeating,
+            // Stop lengths are measured along the horizontal radius of the ending shape
+            ...parseStops(gradient.colorStops, rx, fontSize, viewport),
+            corners: [0, 0, 0, 0],
+            center: [center[0] / w, center[1] / h],
+            radius: [rx / w, ry / h],
+            angle: 0,
+        };
+    }
+
+    const [iw, ih] = preserveAspect ? [w, h] : [1, 1];
+    const angle = mod(parseAngle(gradient.orientation, iw, ih), Math.PI * 2);
     const stops = parseStops(
         gradient.colorStops,
-        Math.max(Math.sqrt(width * width + height * height), 1)
+        gradientLineLength(w, h, angle),
+        fontSize,
+        viewport
     );
 
     return {
+        shape: 'linear',
+        repeating,
         ...stops,
-        corners: [
-            gradientInfluence(-iw, ih, angle),
-            gradientInfluence(iw, ih, angle),
-            gradientInfluence(-iw, -ih, angle),
-            gradientInfluence(iw, -ih, angle),
-        ],
+        corners: getLinearCorners(angle, w, h, preserveAspect),
+        center: [0.5, 0.5],
+        radius: [1, 1],
+        angle,
     };
 }
+
+/** A CSS gradient list parsed once, which can be laid out at any size without parsing it again. */
+export interface CompiledGradient {
+    /** The gradient it was compiled from. */
+    gradient: string;
+    /** Every layer of the gradient, in the same order as the list. */
+    layers: GradientNode[];
+    /** Lays the layers out at a size, returning the last layout again while the size stays the same. */
+    resolve: (
+        width: number,
+        height: number,
+        preserveAspect?: boolean,
+        fontSize?: number,
+        viewport?: ViewportMetrics
+    ) => ParsedGradient[];
+}
+
+// Gradient functions return new strings all the time, so only the most recently used are kept
+const compiledGradients = new Map<string, CompiledGradient>();
+const MAX_COMPILED_GRADIENTS = 64;
+
+/**
+ * Parses a CSS gradient list, or returns it from the cache if it was parsed recently.
+ * Throws a `GradientParseError` if the gradient is invalid, see `validateGradient` to check first.
+ */
+export function compileGradient(gradient: string): CompiledGradient {
+    const cached = compiledGradients.get(gradient);
+    if (cached) {
+        // Move it to the back, so that the least recently used gradient is dropped first
+        compiledGradients.delete(gradient);
+        compiledGradients.set(gradient, cached);
+        return cached;
+    }
+
+    const layers = parseGradientList(gradient);
+    for (const layer of layers) {
+        for (const stop of layer.colorStops) {
+            if (stop.type === 'color-stop') checkStopColor(gradient, stop.color);
+        }
+    }
+
+    let last: { key: unknown[]; parsed: ParsedGradient[] } | null = null;
+    const compiled: CompiledGradient = {
+        gradient,
+        layers,
+        resolve: (
+            width,
+            height,
+            preserveAspect = false,
+            fontSize = getFontSizeInPx(),
+            viewport = getViewportMetrics()
+        ) => {
+            const { rootFontSize, width: vw, height: vh } = viewport;
+            const key = [width, height, preserveAspect, fontSize, rootFontSize, vw, vh];
+            if (!last?.key.every((value, i) => value === key[i])) {
+                const parsed = layers.map((layer) =>
+                    parseGradient(layer, width, height, preserveAspect, fontSize, viewport)
+                );
+                last = { key, parsed };
+            }
+            return last.parsed;
+        },
+    };
+    compiledGradients.set(gradient, compiled);
+    if (compiledGradients.size > MAX_COMPILED_GRADIENTS) {
+        compiledGradients.delete(compiledGradients.keys().next().value!);
+    }
+    return compiled;
+}
+
+/** A problem with a gradient, as found by `validateGradient`. */
+export interface GradientDiagnostic {
+    /** Index into the gradient string where the problem starts. */
+    position: number;
+    message: string;
+    /** The CSS feature that isn't supported, when the gradient is valid CSS that can't be drawn. */
+    unsupported?: string | undefined;
+}
+
+/**
+ * Checks a CSS gradient list without throwing, returning the first problem in each layer.
+ * An empty array means that the gradient can be drawn.
+ */
+export function validateGradient(gradient: string): GradientDiagnostic[] {
+    const layers = splitGradientList(gradient);
+    if (!layers.length) return [{ position: 0, message: 'gradient needs at least one layer' }];
+    return layers.flatMap(({ layer, position }) => {
+        try {
+            compileGradient(layer);
+            return [];
+        } catch (err) {
+            if (!(err instanceof GradientParseError)) throw err;
+            return [
+                {
+                    position: position + err.position,
+                    message: err.reason,
+                    unsupported: err.unsupported,
+                },
+            ];
+        }
+    });
+}
+
+/** Parses every layer of a CSS gradient list, in the same order as the list. */
+export function parseGradientLayers(
+    gradient: string,
+    width: number,
+    height: number,
+    preserveAspect = false,
+    fontSize = getFontSizeInPx(),
+    viewport = getViewportMetrics()
+): ParsedGradient[] {
+    return compileGradient(gradient).layers.map((layer) =>
+        parseGradient(layer, width, height, preserveAspect, fontSize, viewport)
+    );
+}
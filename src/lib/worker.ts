@@ -0,0 +1,82 @@
+import type { GrainyGradientOptions } from './core';
+import type { RenderLoop, RenderSize } from './loop';
+import { createRenderLoop } from './loop';
+import type { FallbackMode } from './utils';
+
+/** Methods of the render loop that are called by sending their name and arguments. */
+type LoopMethod = Exclude<keyof RenderLoop, 'draw' | 'destroy'>;
+
+/** Messages from the main thread to the worker. */
+export type WorkerRequest =
+    | {
+          type: 'init';
+          /** Only sent the first time, a worker keeps its canvas when a new loop takes over. */
+          canvas?: OffscreenCanvas;
+          options: GrainyGradientOptions;
+          size: RenderSize;
+      }
+    | { [K in LoopMethod]: { type: K; args: Parameters<RenderLoop[K]> } }[LoopMethod]
+    | { type: 'draw' | 'destroy' }
+    | { type: 'toBlob'; id: number; mimeType?: string; quality?: number };
+
+/** Messages from the worker to the main thread, for the callbacks that can't be sent to it. */
+export type WorkerResponse =
+    | { type: 'ready' | 'contextlost' | 'contextrestored' }
+    | { type: 'contexterror'; message: string; fallback?: FallbackMode }
+    | {
+          type: 'parseerror';
+          input: string;
+          reason: string;
+          position: number;
+          unsupported: string | undefined;
+      }
+    | { type: 'blob'; id: number; blob: Blob | null };
+
+let canvas: OffscreenCanvas | null = null;
+let loop: RenderLoop | null = null;
+
+const respond = (response: WorkerResponse) => self.postMessage(response);
+
+self.addEventListener('message', ({ data: request }: MessageEvent<WorkerRequest>) => {
+    switch (request.type) {
+        case 'init':
+            canvas = request.canvas ?? canvas;
+            if (!canvas) return;
+            loop?.destroy();
+            loop = createRenderLoop(
+                canvas,
+                {
+                    ...request.options,
+                    onReady: () => respond({ type: 'ready' }),
+                    onContextError: (error, fallback) =>
+                        respond({ type: 'contexterror', message: error.message, fallback }),
+                    onContextLost: () => respond({ type: 'contextlost' }),
+                    onContextRestored: () => respond({ type: 'contextrestored' }),
+                    onParseError: ({ input, reason, position, unsupported }) =>
+                        respond({ type: 'parseerror', input, reason, position, unsupported }),
+                },
+                request.size
+            );
+            return;
+        case 'draw':
+            loop?.draw();
+            return;
+        case 'toBlob': {
+            const { id, mimeType, quality } = request;
+            if (!canvas || !loop?.draw()) return respond({ type: 'blob', id, blob: null });
+            // Read back straight after drawing, before the canvas is cleared for the next frame
+            canvas.convertToBlob({ type: mimeType, quality }).then(
+                (blob) => respond({ type: 'blob', id, blob }),
+                () => respond({ type: 'blob', id, blob: null })
+            );
+            return;
+        }
+        case 'destroy':
+            loop?.destroy();
+            loop = null;
+            return;
+        default:
+            if (!loop) return;
+            (loop[request.type] as (...args: unknown[]) => void)(...request.args);
+    }
+});
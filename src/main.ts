@@ -1 +1,22 @@
 export { GrainyGradient } from './components/GrainyGradient/';
+export { GrainyProvider } from './components/GrainyProvider/';
+export { renderGrainyGradientToImageData } from './lib/reference';
+export type { GrainyImageData, ReferenceRenderOptions } from './lib/reference';
+export { exportFrames, exportGrainyGradient } from './lib/export';
+export type { ExportFramesOptions, ExportOptions, ExportedFrame } from './lib/export';
+export { createGrainyGradient } from './lib/core';
+export type {
+    GrainyGradientController,
+    GrainyGradientHandle,
+    GrainyGradientOptions,
+} from './lib/core';
+export { defineGrainyGradientElement } from './lib/element';
+export { compileGradient, validateGradient } from './lib/utils';
+export type { CompiledGradient, GradientDiagnostic, ParsedGradient } from './lib/utils';
+export { GradientParseError } from './lib/parser';
+export type {
+    ColorInterpolation,
+    GradientKeyframe,
+    KeyframeDirection,
+    KeyframeEasing,
+} from './lib/keyframes';
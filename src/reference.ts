@@ -0,0 +1,2 @@
+export { renderGrainyGradientToImageData } from './lib/reference';
+export type { GrainyImageData, ReferenceRenderOptions } from './lib/reference';
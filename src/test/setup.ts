@@ -0,0 +1,5 @@
+import { cleanup } from '@testing-library/react';
+import { afterEach } from 'vitest';
+
+// Unmount anything a test rendered, so that tests don't see each other's DOM
+afterEach(() => cleanup());
@@ -15,10 +15,12 @@ export default defineConfig({
         // https://github.com/vitejs/vite/issues/1579#issuecomment-1483756199
         libInjectCss(),
         dts({
-            exclude: ['**/*.stories.tsx', 'src/test', '**/*.test.tsx'],
+            exclude: ['**/*.stories.tsx', 'src/test', '**/*.test.ts', '**/*.test.tsx'],
             tsconfigPath: 'tsconfig.app.json',
         }),
     ],
+    // The worker is loaded relative to the module that starts it, not the root of the app using the library
+    base: './',
     build: {
         lib: {
             entry: resolve(__dirname, 'src/main.ts'),
@@ -28,7 +30,13 @@ export default defineConfig({
             external: ['react', 'react-dom', 'react/jsx-runtime'],
             // https://rollupjs.org/configuration-options/#input
             input: Object.fromEntries(
-                globSync(['src/components/**/index.tsx', 'src/main.ts']).map((file) => {
+                globSync([
+                    'src/components/**/index.tsx',
+                    'src/main.ts',
+                    'src/reference.ts',
+                    'src/core.ts',
+                    'src/element.ts',
+                ]).map((file) => {
                     // This remove `src/` as well as the file extension from each
                     // file, so e.g. src/nested/foo.js becomes nested/foo
                     const entryName = path.relative(